@@ -1,4 +1,12 @@
+import { makeSoundChanger, SoundChange } from '../diachrony'
+import { GlossedSentence, GlossedWord, interlinearHtml, interlinearText } from '../gloss'
 import {Language} from '../language'
+import { Compounding, Morphology, NounClasses, Reduplication } from '../morphology'
+import { pickMorphophonology } from '../morphophonology'
+import { makeSpeller } from '../orthography'
+import { allConsonants, Allophony, Phonology, PhonologyEngine, StressSystem } from '../phonology'
+import { makeScript } from '../script'
+import { WritingSystem } from '../writing'
 
 // we could use more tests, but hey! this is just a gibberish generator!
 
@@ -15,3 +23,936 @@ describe('language', () => {
     test('nounPhrase', () => expect(language.nounPhrase('foo')).toMatch(/foo/i))
   }
 })
+
+describe('vowel harmony', () => {
+  const classes = [
+    ['a', 'o', 'u'],
+    ['ä', 'ö', 'y'],
+  ]
+  const language = new Language({
+    seed: 1,
+    phonology: { vowels: { vocalicSyllableNuclei: ['a', 'o', 'u', 'ä', 'ö', 'y'] }, vowelHarmony: { classes } },
+    morphology: { analytic: false },
+  })
+  test('harmonize', () => expect(language.phonology.harmonize('tuka', 'kyl')).toEqual('tykä'))
+  test('config', () => expect(language.config().phonology?.vowelHarmony?.classes).toEqual(classes))
+  test('words agree', () => {
+    for (const word of language.essay(3).toLowerCase().split(/\s+/)) {
+      expect(/[aou]/.test(word) && /[äöy]/.test(word)).toBe(false)
+    }
+  })
+})
+
+describe('tone', () => {
+  const numeric = new Language({ seed: 2, phonology: { tone: { tones: 4, contour: true, marking: 'numeric' } } })
+  test('inventory', () =>
+    expect(numeric.config().phonology?.tone?.inventory).toEqual(['high', 'low', 'falling', 'rising']))
+  test('numeric marking', () => {
+    for (let i = 0; i < 20; i++) expect(numeric.phonology.syllable()).toMatch(/[1-4]$/)
+  })
+  test('explicit tone', () => expect(numeric.phonology.syllable('rising')).toMatch(/4$/))
+  const diacritic = new Language({ seed: 2, phonology: { tone: { tones: 3, contour: false, marking: 'diacritic' } } })
+  test('diacritic marking', () => {
+    for (let i = 0; i < 20; i++) expect(diacritic.phonology.syllable().normalize('NFD')).toMatch(/[\u0300\u0301\u0304]/)
+  })
+  test('affix tone', () => expect(diacritic.config().morphology?.affixTone).toBeDefined())
+  test('too many level tones', () => {
+    const tone = new PhonologyEngine({ tone: { tones: 6, contour: false } }).config().tone!
+    expect(tone.tones).toBe(tone.inventory!.length)
+  })
+})
+
+describe('consonants', () => {
+  const phonology = new PhonologyEngine({
+    consonants: {
+      placesOfArticulation: ['labial', 'aveolar', 'retroflex'],
+      mayHaveNasals: true,
+      mayHaveApproximants: true,
+      mayHaveLateralApproximants: true,
+      mayHaveTaps: true,
+      clicks: ['ǃ'],
+    },
+  })
+  const c = phonology.config().consonants!
+  test('nasals', () => expect(c.nasals).toEqual(['m', 'n', 'ṇ']))
+  test('approximants', () => expect(c.approximants).toEqual(['w', 'r', 'ɻ']))
+  test('lateral approximants', () => expect(c.lateralApproximants).toEqual(['l', 'ḷ']))
+  test('taps', () => expect(c.taps).toEqual(['ɾ', 'ṛ']))
+  test('explicit clicks', () => expect(c.clicks).toEqual(['ǃ']))
+})
+
+describe('vowels', () => {
+  const phonology = new PhonologyEngine({
+    tone: { tones: 0 },
+    vowels: {
+      vocalicSyllableNuclei: ['a', 'i', 'u'],
+      diphthongs: ['ai'],
+      nasalVowels: ['a'],
+      nonVocalicSyllableNuclei: [],
+      longVowels: true,
+      longVowelNotation: 'mark',
+    },
+  })
+  const v = phonology.config().vowels!
+  test('diphthongs are kept apart', () => expect(v.vocalicSyllableNuclei).toEqual(['a', 'i', 'u']))
+  test('nasal vowels', () => expect(v.nasalVowels).toEqual(['a']))
+  test('long vowel notation', () => {
+    for (let i = 0; i < 50; i++) expect(phonology.syllable()).not.toMatch(/aiː|aa|ii|uu/)
+  })
+  test('syllable count', () => {
+    // 3 monophthongs + 1 nasal vowel + 1 diphthong, and the long versions of the first 4
+    expect(phonology.config().numberPossibleSyllables! % 9).toBe(0)
+  })
+})
+
+describe('phonotactics', () => {
+  const phonology = new PhonologyEngine({
+    tone: { tones: 0 },
+    vowels: { vocalicSyllableNuclei: ['a'], nasalVowels: [], nonVocalicSyllableNuclei: [], longVowels: false },
+    consonants: {
+      placesOfArticulation: ['labial', 'aveolar', 'velar'],
+      stops: ['p', 't', 'k'],
+      nasals: ['m', 'n', 'ng'],
+      fricatives: [],
+      affricates: [],
+      lateralFricatives: [],
+      clicks: [],
+      approximants: [],
+      lateralApproximants: [],
+      trills: [],
+      taps: [],
+    },
+    closedSyllables: true,
+    consonantClusters: { initial: false, final: true },
+    phonotactics: { sonoritySequencing: true, placeAssimilation: true, forbiddenClusters: ['nt'] },
+  })
+  const codas = new Set(['', 'p', 't', 'k', 'm', 'n', 'ng', 'mp', 'ngk'])
+  test('codas are homorganic', () => {
+    for (let i = 0; i < 100; i++) {
+      const syllable = phonology.syllable()
+      expect(codas.has(syllable.slice(syllable.indexOf('a') + 1))).toBe(true)
+    }
+  })
+})
+
+describe('syllable templates', () => {
+  const vowels = {
+    vocalicSyllableNuclei: ['a', 'i', 'u'],
+    nasalVowels: [],
+    nonVocalicSyllableNuclei: [],
+    longVowels: false,
+  }
+  const engine = (syllableTemplates?: [string, number][]) =>
+    new PhonologyEngine({ tone: { tones: 0 }, vowels, syllableTemplates })
+  test('open', () => {
+    const phonology = engine([['CV', 1]])
+    for (let i = 0; i < 20; i++) expect(phonology.syllable()).toMatch(/^[^aiu]+[aiu]$/)
+  })
+  test('vowel only', () => {
+    const phonology = engine([['V', 1]])
+    for (let i = 0; i < 20; i++) expect(phonology.syllable()).toMatch(/^[aiu]$/)
+  })
+  test('closed', () => {
+    const phonology = engine([['CVC', 1]])
+    expect(phonology.config().closedSyllables).toBe(true)
+    for (let i = 0; i < 20; i++) expect(phonology.syllable()).toMatch(/^[^aiu]+[aiu][^aiu]+$/)
+  })
+  test('inferred', () => {
+    for (const [template] of engine().config().syllableTemplates!) expect(template).toMatch(/^C*VC*$/)
+  })
+  test('invalid', () => expect(() => engine([['CVX', 1]])).toThrow())
+})
+
+describe('frequencies', () => {
+  const engine = (frequencies?: Record<string, number>) =>
+    new PhonologyEngine({
+      tone: { tones: 0 },
+      vowels: { vocalicSyllableNuclei: ['a', 'i'], diphthongs: [], nasalVowels: [], longVowels: false },
+      consonants: { stops: ['p', 't', "t'", 'k'], nasals: [], fricatives: [], approximants: [] },
+      syllableTemplates: [['CV', 1]],
+      frequencies,
+    })
+  test('markedness', () => {
+    const frequencies = engine().config().frequencies!
+    expect(frequencies.t).toBeGreaterThan(frequencies["t'"])
+  })
+  test('supplied', () => {
+    const phonology = engine({ t: 5, k: 0 })
+    const frequencies = phonology.config().frequencies!
+    expect(frequencies.t).toBe(5)
+    expect(frequencies.p).toBeGreaterThan(0)
+    for (let i = 0; i < 50; i++) expect(phonology.segments(phonology.syllable())).not.toContain('k')
+  })
+})
+
+describe('morphophonology', () => {
+  const vowels = {
+    vocalicSyllableNuclei: ['a', 'i', 'u'],
+    nasalVowels: [],
+    nonVocalicSyllableNuclei: [],
+    longVowels: false,
+  }
+  const phonology = new PhonologyEngine({
+    tone: { tones: 0 },
+    vowels,
+    consonants: {
+      placesOfArticulation: ['labial', 'aveolar', 'velar'],
+      voicingMechanisms: ['voiced', 'unvoiced'],
+      stops: ['p', 'b', 't', 'd', 'k', 'g'],
+      fricatives: [],
+      affricates: [],
+      lateralFricatives: [],
+      clicks: [],
+      nasals: ['m', 'n', 'ng'],
+      approximants: ['j'],
+      lateralApproximants: [],
+      trills: [],
+      taps: [],
+    },
+    syllableTemplates: [
+      ['CV', 2],
+      ['CVC', 1],
+    ],
+  })
+  const join = (rule: string, prefixes: string[], stem: string, suffixes: string[]) =>
+    pickMorphophonology({ [rule]: true }, phonology, () => 0.99)(prefixes, stem, suffixes)
+  test('segments', () => expect(phonology.segments('ngangka')).toEqual(['ng', 'a', 'ng', 'k', 'a']))
+  test('assimilation', () => {
+    expect(join('assimilation', ['an'], 'pata', [])).toBe('ampata')
+    expect(join('assimilation', [], 'tab', ['ta'])).toBe('tabda')
+  })
+  test('epenthesis', () => expect(join('epenthesis', [], 'tamp', ['ka'])).toBe('tampika'))
+  test('elision', () => {
+    expect(join('elision', [], 'tala', ['an'])).toBe('talan')
+    expect(join('elision', ['ku'], 'ata', [])).toBe('kata')
+  })
+  test('elision with tone numbers', () => {
+    const tonal = new PhonologyEngine({ ...phonology.config(), tone: { tones: 3, marking: 'numeric' } })
+    const elide = pickMorphophonology({ elision: true }, tonal, () => 0.99)
+    expect(elide([], 'ka2', ['a3'])).toBe('ka2')
+    expect(elide([], 'ka2', ['an3'])).toBe('ka2n')
+    expect(elide(['ku1'], 'a2ta3', [])).toBe('ka2ta3')
+  })
+  test('hiatus resolution', () => expect(join('hiatusResolution', [], 'ta', ['a'])).toBe('taja'))
+  test('degemination', () => expect(join('degemination', [], 'tak', ['ka'])).toBe('taka'))
+})
+
+describe('stress', () => {
+  const engine = (stress: StressSystem) =>
+    new PhonologyEngine({
+      tone: { tones: 0 },
+      vowels: { vocalicSyllableNuclei: ['a', 'i', 'u'], diphthongs: [], nasalVowels: [], longVowels: false },
+      consonants: { stops: ['p', 't', 'k'], nasals: ['m', 'n'], fricatives: [], approximants: [] },
+      syllableTemplates: [
+        ['CV', 2],
+        ['CVC', 1],
+      ],
+      stress,
+    })
+  const ipa = (placement: StressSystem['placement']) => engine({ placement, marking: 'ipa' })
+  test('syllables', () => expect(ipa('initial').syllabify('patanka')).toEqual(['pa', 'tan', 'ka']))
+  test('acute', () => expect(engine({ placement: 'initial', marking: 'acute' }).accent('pataka')).toBe('pa\u0301taka'))
+  test('penultimate', () => expect(ipa('penultimate').accent('pataka')).toBe('paˈtaka'))
+  test('final', () => expect(ipa('final').accent('pataka')).toBe('pataˈka'))
+  test('weight', () => {
+    expect(ipa('weight').accent('patanka')).toBe('paˈtanka')
+    expect(ipa('weight').accent('pataka')).toBe('ˈpataka')
+  })
+  test('lexical', () => expect(ipa('lexical').accent('pataka')).toBe(ipa('lexical').accent('pataka')))
+  test('monosyllables', () => expect(ipa('initial').accent('pat')).toBe('pat'))
+  test('none', () => expect(ipa('none').stress('pataka')).toBe(-1))
+})
+
+describe('IPA', () => {
+  const engine = (p: Phonology = {}) =>
+    new PhonologyEngine({
+      tone: { tones: 0 },
+      vowels: { vocalicSyllableNuclei: ['a', 'i', 'ä'], diphthongs: ['ai'], nasalVowels: [], longVowels: false },
+      consonants: { stops: ['p', 't', 'k', "'"], nasals: ['ng'], fricatives: ['dh'], approximants: [] },
+      syllableTemplates: [['CV', 1]],
+      stress: { placement: 'none' },
+      ...p,
+    })
+  test('consonants', () => expect(engine().toIPA("ngadhä'")).toBe('ŋaðæʔ'))
+  test('diphthongs', () => expect(engine().toIPA('pai')).toBe('pai̯'))
+  test('long vowels', () => {
+    const double = engine({ vowels: { vocalicSyllableNuclei: ['a'], longVowels: true, longVowelNotation: 'double' } })
+    expect(double.toIPA('paata')).toBe('paːta')
+  })
+  test('numeric tone', () => {
+    expect(engine({ tone: { inventory: ['high', 'low'], marking: 'numeric' } }).toIPA('pa1ta2')).toBe('pa˦ta˨')
+  })
+  test('stress', () => expect(engine({ stress: { placement: 'penultimate' } }).toIPA('pataka')).toBe('paˈtaka'))
+  test('transcribe', () => {
+    const language = new Language({ seed: 1, phonology: { stress: { placement: 'none' } } })
+    expect(language.transcribe('Par, tak.')).toBe('paɹ | tak ‖')
+  })
+})
+
+describe('allophony', () => {
+  const none = { intervocalicVoicing: false, finalDevoicing: false, palatalization: false, vowelReduction: false }
+  const engine = (allophony: Allophony, placement: StressSystem['placement'] = 'none') =>
+    new PhonologyEngine({
+      tone: { tones: 0 },
+      vowels: { vocalicSyllableNuclei: ['a', 'i'], diphthongs: [], nasalVowels: [], longVowels: false },
+      consonants: { stops: ['p', 't', 'k', 'b', 'd', 'g'], nasals: ['n'], fricatives: [], approximants: [] },
+      syllableTemplates: [['CV', 1]],
+      stress: { placement },
+      allophony: { ...none, ...allophony },
+    })
+  test('intervocalic voicing', () => {
+    expect(engine({ intervocalicVoicing: true }).toIPA('pataka', true, true)).toBe('padaɡa')
+    expect(engine({ intervocalicVoicing: true }).toIPA('pataka')).toBe('pataka')
+  })
+  test('final devoicing', () => expect(engine({ finalDevoicing: true }).toIPA('badab', true, true)).toBe('badap'))
+  test('palatalization', () => expect(engine({ palatalization: true }).toIPA('kinapi', true, true)).toBe('kʲinapi'))
+  test('vowel reduction', () => {
+    expect(engine({ vowelReduction: true }, 'penultimate').toIPA('pataka', true, true)).toBe('pəˈtakə')
+  })
+  test('phonetic rendering', () => {
+    const phonemic = new Language({ seed: 3 })
+    const phonetic = new Language({ seed: 3, phonetic: true })
+    const predictStress = phonemic.morphology.config().stressShift
+    const narrow = phonemic
+      .assertion()
+      .replace(/[^\s.,;!?]+/g, (word) => phonemic.phonology.toIPA(word.toLowerCase(), predictStress, true))
+    expect(phonetic.assertion()).toBe(narrow)
+  })
+})
+
+describe('reduplication', () => {
+  const language = (plural: Reduplication['plural']) =>
+    new Language({
+      seed: 1,
+      phonology: { vowels: { vocalicSyllableNuclei: ['a', 'i', 'u'] }, stress: { marking: 'none' } },
+      morphology: { analytic: true, reduplication: { plural } },
+    })
+  const nouns = (plural: Reduplication['plural']) => {
+    const { morphology } = language(plural)
+    const forms = new Set()
+    for (let i = 0; i < 50; i++) forms.add(morphology.noun('pata'))
+    return forms
+  }
+  test('full', () => expect(nouns('full').has('patapata')).toBe(true))
+  test('initial CV', () => expect(nouns('initialCV').has('papata')).toBe(true))
+  test('final syllable', () => expect(nouns('finalSyllable').has('patata')).toBe(true))
+  test('none', () => expect(Array.from(nouns('none'))).toEqual(['pata']))
+  test('glossed', () => {
+    const { morphology } = language('finalSyllable')
+    expect(morphology.paradigm('pata', 'noun')).toEqual({ singular: 'pata', plural: 'patata' })
+    const glosses = new Set()
+    for (let i = 0; i < 50; i++) {
+      const word = morphology.glossedNoun('pata')
+      glosses.add(interlinearText({ text: word.form, words: [word] }))
+    }
+    expect(glosses).toEqual(new Set(['pata\npata\nnoun', 'patata\npata~ta\nnoun~PL']))
+  })
+  test('intensive', () => {
+    const language = new Language({
+      seed: 1,
+      phonology: { vowels: { vocalicSyllableNuclei: ['a', 'i', 'u'] }, stress: { marking: 'none' } },
+      morphology: { analytic: true, reduplication: { intensive: 'full' } },
+    })
+    expect(language.inflect('pata', { intensity: 'intensive' })).toBe('patapata')
+  })
+  test('config', () => {
+    const { reduplication } = new Language({ seed: 1 }).config().morphology!
+    for (const category of ['plural', 'aspect', 'intensive', 'derivation'] as const) {
+      expect(['none', 'full', 'initialCV', 'finalSyllable']).toContain(reduplication![category])
+    }
+  })
+})
+
+describe('infixes and circumfixes', () => {
+  const language = (adfixStyle: Morphology['adfixStyle'], infixPosition?: Morphology['infixPosition']) =>
+    new Language({
+      seed: 1,
+      phonology: {
+        tone: { tones: 0 },
+        vowels: { vocalicSyllableNuclei: ['a', 'i', 'u'] },
+        stress: { marking: 'none' },
+      },
+      morphology: {
+        analytic: false,
+        verbalInflections: true,
+        nominalInflections: true,
+        adfixStyle,
+        infixPosition,
+        morphophonology: { assimilation: false, epenthesis: false, elision: false, degemination: false },
+      },
+    })
+  const forms = (f: () => string) => {
+    const forms: string[] = []
+    for (let i = 0; i < 50; i++) forms.push(f())
+    return forms
+  }
+  test('after the onset', () => {
+    const { morphology } = language('infix', 'afterOnset')
+    const verbs = forms(() => morphology.verb('pata'))
+    for (const v of verbs) expect(v).toMatch(/^p.*ata/)
+    expect(verbs.some((v) => !v.startsWith('pata'))).toBe(true)
+  })
+  test('after the first syllable', () => {
+    const { morphology } = language('infix', 'afterSyllable')
+    const verbs = forms(() => morphology.verb('pata'))
+    for (const v of verbs) expect(v).toMatch(/^pa.*ta/)
+    expect(verbs.some((v) => !v.startsWith('pata'))).toBe(true)
+  })
+  test('loanwords', () => {
+    const { morphology } = language('infix', 'afterOnset')
+    for (const n of forms(() => morphology.noun('pata'))) expect(n).toMatch(/pata/)
+  })
+  test('circumfix', () => {
+    const { morphology } = language('circumfix')
+    const nouns = forms(() => morphology.noun('pata'))
+    for (const n of nouns) expect(n).toMatch(/pata/)
+    // the prefix never comes without the suffix
+    for (const n of nouns) if (!n.startsWith('pata')) expect(n.endsWith('pata')).toBe(false)
+    expect(nouns.some((n) => !n.startsWith('pata'))).toBe(true)
+  })
+})
+
+describe('noun classes', () => {
+  const language = (nounClasses: NounClasses) =>
+    new Language({
+      seed: 1,
+      phonology: { vowels: { vocalicSyllableNuclei: ['a', 'i', 'u'] } },
+      morphology: {
+        analytic: false,
+        nounClasses,
+        morphophonology: { assimilation: false, epenthesis: false, elision: false, degemination: false },
+      },
+      syntax: { basicWordOrder: 'SVO', verbRequiresSubject: true },
+    })
+  test('phonological', () => {
+    const { morphology } = language({ count: 3, assignment: 'phonological' })
+    expect(morphology.nounClass('pata')).toBe(0)
+    expect(morphology.nounClass('kuti')).toBe(1)
+    expect(morphology.nounClass('tiku')).toBe(2)
+    expect(morphology.nounClass('tapa')).toBe(morphology.nounClass('pata'))
+  })
+  test('compounds', () => {
+    const { morphology } = new Language({
+      seed: 1,
+      phonology: { vowels: { vocalicSyllableNuclei: ['a', 'i', 'u'] } },
+      morphology: {
+        nounClasses: { count: 3, assignment: 'phonological' },
+        compounding: { probability: 1, head: 'left', linker: '-', maxStems: 2 },
+      },
+    })
+    for (let i = 0; i < 20; i++) {
+      const stem = morphology.nounStem()
+      expect(morphology.nounClass(stem)).toBe(morphology.nounClass(stem.split('-')[0]))
+    }
+  })
+  test('arbitrary', () => {
+    const { morphology } = language({ count: 4, assignment: 'arbitrary' })
+    for (let i = 0; i < 20; i++) {
+      const stem = morphology.nounStem()
+      const nounClass = morphology.nounClass(stem)!
+      expect(nounClass).toBeGreaterThan(-1)
+      expect(nounClass).toBeLessThan(4)
+      expect(morphology.nounClass(stem)).toBe(nounClass)
+    }
+  })
+  test('markers', () => {
+    const { morphology } = language({ count: 2, markers: ['ka', 'mu'], markerPosition: 'suffix' })
+    expect(morphology.classAgreement('pata', 1)).toBe('patamu')
+    expect(morphology.classAgreement('pata')).toBe('pata')
+  })
+  test('none', () => {
+    const { morphology } = language({ count: 0 })
+    expect(morphology.nounClass('pata')).toBe(undefined)
+    expect(morphology.classAgreement('pata', 1)).toBe('pata')
+  })
+  test('verbs agree with their subjects', () => {
+    const markers = ['zzz', 'qqq']
+    const language2 = language({ count: 2, assignment: 'arbitrary', markers, markerPosition: 'suffix' })
+    const marker = markers[language2.morphology.nounClass('pata')!]
+    for (let i = 0; i < 10; i++) expect(language2.assertion('pata')).toMatch(new RegExp(marker))
+  })
+})
+
+describe('case', () => {
+  const language = (alignment: Morphology['alignment'], cases: Morphology['cases']) =>
+    new Language({
+      seed: 1,
+      phonology: { stress: { marking: 'none' } },
+      morphology: {
+        analytic: true,
+        alignment,
+        cases,
+        morphophonology: { assimilation: false, epenthesis: false, elision: false, degemination: false },
+      },
+      syntax: { basicWordOrder: 'SVO', verbRequiresSubject: true, adpositionCase: 'oblique' },
+    })
+  test('nominative-accusative', () => {
+    const language1 = language('nominativeAccusative', { nominative: '', accusative: 'qqq', dative: 'zzz' })
+    for (let i = 0; i < 20; i++) {
+      const sentence = language1.assertion('pata', 'kuti')
+      expect(sentence).not.toMatch(/pataqqq/i)
+      if (/kuti/.test(sentence)) expect(sentence).toMatch(/kutiqqq/)
+    }
+  })
+  test('ergative-absolutive', () => {
+    const language1 = language('ergativeAbsolutive', { ergative: 'qqq', absolutive: '' })
+    for (let i = 0; i < 20; i++) {
+      // only the subject of a transitive verb is marked
+      const sentence = language1.assertion('pata', 'kuti')
+      expect(/pataqqq/i.test(sentence)).toBe(/kuti/.test(sentence))
+    }
+  })
+  test('adpositions', () => {
+    const language1 = language('nominativeAccusative', { oblique: 'xxx' })
+    expect(language1.config().syntax!.adpositionCase).toBe('oblique')
+    expect(language1.syntax.adpositionPhrase('pata')).toMatch(/pataxxx/)
+  })
+  test('stress shift', () => {
+    const language1 = new Language({
+      seed: 1,
+      phonology: {
+        tone: { tones: 0 },
+        vowels: { vocalicSyllableNuclei: ['a', 'i', 'u'] },
+        stress: { placement: 'penultimate', marking: 'ipa' },
+      },
+      morphology: {
+        analytic: true,
+        stressShift: true,
+        alignment: 'nominativeAccusative',
+        cases: { nominative: '', accusative: 'ka' },
+        morphophonology: { assimilation: false, epenthesis: false, elision: false, degemination: false },
+      },
+    })
+    expect(language1.inflect('pata', { case: 'nominative' })).toBe('ˈpata')
+    expect(language1.inflect('pata', { case: 'accusative' })).toBe('paˈtaka')
+  })
+  test('config', () => {
+    for (let seed = 0; seed < 10; seed++) {
+      const { alignment, cases } = new Language({ seed }).config().morphology!
+      expect(['neutral', 'nominativeAccusative', 'ergativeAbsolutive']).toContain(alignment)
+      if (alignment === 'neutral') expect(cases).toEqual({})
+    }
+  })
+})
+
+describe('person agreement', () => {
+  const personMarkers = { '1sg': 'zqx', '2sg': 'zqj', '3sg': 'zqw', '1pl': 'zqv', '2pl': 'zqc', '3pl': 'zqf' }
+  const language = (proDrop?: boolean, markers: Morphology['personMarkers'] = personMarkers) =>
+    new Language({
+      seed: 1,
+      phonology: { stress: { marking: 'none' } },
+      morphology: {
+        analytic: true,
+        personMarkers: markers,
+        morphophonology: { assimilation: false, epenthesis: false, elision: false, degemination: false },
+      },
+      syntax: { basicWordOrder: 'SVO', proDrop },
+    })
+  test('markers', () => {
+    const { morphology } = language(false)
+    expect(morphology.personAgreement('pata', '2pl')).toBe('patazqc')
+    expect(morphology.personAgreement('pata')).toBe('pata')
+    expect(morphology.pronoun('1sg')).toBe(morphology.pronoun('1sg'))
+  })
+  test('rich agreement', () => {
+    expect(language(false).morphology.richAgreement()).toBe(true)
+    expect(language(false, { '3sg': 'zqw' }).morphology.richAgreement()).toBe(false)
+  })
+  test('pro-drop', () => {
+    const words = (sentence: string) => sentence.toLowerCase().split(/[ .]+/)
+    const language1 = language(false)
+    const language2 = language(true)
+    expect(language2.config().syntax!.verbRequiresSubject).toBe(false)
+    let kept = 0,
+      dropped = 0
+    for (let i = 0; i < 300; i++) {
+      const sentence = language1.assertion()
+      if (/zqx/.test(sentence) && words(sentence).includes(language1.morphology.pronoun('1sg'))) kept++
+      const sentence2 = language2.assertion()
+      if (/zqx/.test(sentence2) && !words(sentence2).includes(language2.morphology.pronoun('1sg'))) dropped++
+    }
+    expect(kept).toBeGreaterThan(0)
+    expect(dropped).toBeGreaterThan(0)
+  })
+  test('defaults', () => {
+    const { syntax } = language(undefined, { '3sg': 'zqw' }).config()
+    expect(syntax!.proDrop).toBe(false)
+  })
+  test('contradictory settings', () => {
+    expect(() => new Language({ seed: 1, syntax: { proDrop: true, verbRequiresSubject: true } })).toThrow()
+  })
+  // nouns and pronouns inflect for number
+  const numbered = new Language({
+    seed: 1,
+    morphology: {
+      analytic: false,
+      verbalInflections: true,
+      verbalCategories: [],
+      nominalInflections: true,
+      nominalCategories: ['number'],
+      alignment: 'neutral',
+      personMarkers,
+    },
+    syntax: { basicWordOrder: 'SOV', verbRequiresSubject: true, usesAuxiliaryVerbs: false },
+  })
+  const glosses = (word: GlossedWord) => word.morphemes.map((m) => m.gloss)
+  test('subject number', () => {
+    const { syntax } = numbered
+    const agreement = new Set()
+    for (let i = 0; i < 100; i++) {
+      const { words } = syntax.glossedAssertion('pata')
+      // a relative clause has a verb of its own
+      if (words.some((w) => glosses(w).includes('REL'))) continue
+      const subject = words.find((w) => w.morphemes.some((m) => m.type === 'stem' && m.form === 'pata'))!
+      const verb = words.find((w) => glosses(w).some((g) => /^3(SG|PL)$/.test(g)))!
+      const plural = glosses(subject).includes('PL')
+      expect(glosses(verb)).toContain(plural ? '3PL' : '3SG')
+      agreement.add(plural)
+    }
+    expect(agreement.size).toBe(2)
+  })
+  test('pronoun number', () => {
+    const { morphology } = numbered
+    for (let i = 0; i < 20; i++) {
+      expect(glosses(morphology.glossedPronoun('1pl'))).toContain('PL')
+      expect(glosses(morphology.glossedPronoun('3sg'))).not.toContain('PL')
+    }
+  })
+})
+
+describe('paradigms', () => {
+  const language = new Language({
+    seed: 1,
+    morphology: {
+      analytic: false,
+      alignment: 'neutral',
+      verbalInflections: true,
+      verbalCategories: ['aspect', 'tense'],
+      nominalCategories: ['number'],
+      personMarkers: {},
+    },
+  })
+  const { morphology } = language
+  test('categories', () => {
+    const verb = morphology.verbStem()
+    const paradigm = morphology.paradigm(verb, 'verb')
+    const keys = Object.keys(paradigm)
+    expect(keys).toContain('perfective.present')
+    for (const key of keys) expect(key).toMatch(/^\w+\.\w+$/)
+    // every form is distinct
+    expect(new Set(keys.map((k) => paradigm[k])).size).toBe(keys.length)
+    expect(paradigm['perfective.present']).toBe(morphology.form(verb, 'verb'))
+  })
+  test('form', () => {
+    const noun = morphology.nounStem()
+    expect(morphology.form(noun, 'noun', { number: 'plural' })).toBe(morphology.paradigm(noun, 'noun').plural)
+    expect(language.inflect(noun, { number: 'plural' })).toBe(language.inflect(noun, { number: 'plural' }, 'noun'))
+    expect(() => morphology.form(noun, 'noun', { definiteness: 'definite' })).toThrow()
+    expect(() => morphology.form(noun, 'noun', { case: 'ergative' })).toThrow()
+  })
+  test('uninflected', () => {
+    const { morphology } = new Language({ seed: 1, morphology: { analytic: true } })
+    const verb = morphology.verbStem()
+    expect(morphology.paradigm(verb, 'verb')).toEqual({ '': verb })
+  })
+})
+
+describe('glossing', () => {
+  test('sentences', () => {
+    for (let seed = 0; seed < 10; seed++) {
+      const { syntax } = new Language({ seed })
+      for (const sentence of [syntax.glossedAssertion('foo'), syntax.glossedQuestion(), syntax.glossedExclamation()]) {
+        expect(sentence.text.split(' ').length).toBe(sentence.words.length)
+        for (const word of sentence.words) expect(word.morphemes.filter((m) => m.type === 'stem').length).toBe(1)
+      }
+    }
+  })
+  test('markers', () => {
+    const { morphology } = new Language({
+      seed: 1,
+      morphology: { adfixStyle: 'suffix', alignment: 'nominativeAccusative', cases: { accusative: 'zqx' } },
+    })
+    expect(morphology.glossedCaseMarking(morphology.glossedWord('pata', 'noun'), 'accusative').morphemes).toEqual([
+      { form: 'pata', gloss: 'noun', type: 'stem' },
+      { form: 'zqx', gloss: 'ACC', type: 'suffix' },
+    ])
+  })
+  const sentence: GlossedSentence = {
+    text: 'Sumulat ako.',
+    words: [
+      {
+        form: 'sumulat',
+        morphemes: [
+          { form: 'sulat', gloss: 'verb', type: 'stem' },
+          { form: 'um', gloss: 'AV', type: 'infix', position: 1 },
+        ],
+      },
+      { form: 'ako', morphemes: [{ form: 'ako', gloss: '1SG', type: 'stem' }] },
+    ],
+  }
+  test('text', () =>
+    expect(interlinearText(sentence)).toBe(['Sumulat    ako.', 's<um>ulat  ako', '<AV>verb   1SG'].join('\n')))
+  test('html', () => {
+    const html = interlinearHtml(sentence)
+    expect(html).toMatch(/^<table class="interlinear">/)
+    expect(html).toContain('<td>s&lt;um&gt;ulat</td>')
+  })
+})
+
+describe('compounding', () => {
+  const stems = (compounding: Compounding) => {
+    const { morphology } = new Language({ seed: 1, morphology: { compounding } })
+    const stems = []
+    for (let i = 0; i < 100; i++) stems.push(morphology.nounStem())
+    return stems
+  }
+  test('right-headed', () => {
+    const compounds = stems({ probability: 1, head: 'right', linker: '-', maxStems: 2, reuse: 1 })
+    for (const c of compounds) expect(c.split('-').length).toBe(2)
+    // the modifiers are the frequent stems, the heads anything
+    const modifiers = new Set(compounds.map((c) => c.split('-')[0]))
+    const heads = new Set(compounds.map((c) => c.split('-')[1]))
+    expect(heads.size).toBeGreaterThan(modifiers.size)
+  })
+  test('left-headed', () => {
+    const compounds = stems({ probability: 1, head: 'left', linker: '-', maxStems: 2, reuse: 1 })
+    const modifiers = new Set(compounds.map((c) => c.split('-')[1]))
+    const heads = new Set(compounds.map((c) => c.split('-')[0]))
+    expect(heads.size).toBeGreaterThan(modifiers.size)
+  })
+  test('none', () => {
+    for (const c of stems({ probability: 0, linker: '-' })) expect(c).not.toMatch(/-/)
+  })
+  test('morphophonology', () => {
+    const { morphology } = new Language({
+      seed: 1,
+      phonology: {
+        tone: { tones: 0 },
+        vowels: { vocalicSyllableNuclei: ['a', 'u'], diphthongs: [], nasalVowels: [], longVowels: false },
+        consonants: {
+          stops: ['p', 't', 'k'],
+          fricatives: [],
+          affricates: [],
+          lateralFricatives: [],
+          clicks: [],
+          nasals: [],
+          approximants: [],
+          lateralApproximants: [],
+          trills: [],
+          taps: [],
+        },
+        syllableTemplates: [['CVC', 1]],
+        stress: { marking: 'none' },
+      },
+      morphology: {
+        morphophonology: { epenthesis: true, epentheticVowel: 'i' },
+        compounding: { probability: 1, head: 'left', linker: 't', maxStems: 2, reuse: 0 },
+      },
+    })
+    // a vowel breaks up the three consonants where the linker meets the modifier
+    for (let i = 0; i < 20; i++) expect(morphology.nounStem()).not.toMatch(/[ptk]{3}/)
+  })
+  test('config', () => {
+    const language = new Language({ seed: 1, morphology: { compounding: { probability: 0.5 } } })
+    const { compounding } = language.config().morphology!
+    expect(['left', 'right']).toContain(compounding!.head)
+    expect(typeof compounding!.linker).toBe('string')
+    expect([2, 3]).toContain(compounding!.maxStems)
+  })
+})
+
+describe('nativization', () => {
+  const engine = (syllableTemplates: [string, number][]) =>
+    new PhonologyEngine({
+      tone: { tones: 0 },
+      vowels: { vocalicSyllableNuclei: ['a', 'i', 'u'], diphthongs: [], nasalVowels: [], longVowels: false },
+      consonants: {
+        stops: ['p', 't', 'k'],
+        nasals: ['n'],
+        fricatives: ['s'],
+        affricates: [],
+        lateralFricatives: [],
+        clicks: [],
+        approximants: [],
+        lateralApproximants: ['l'],
+        trills: [],
+        taps: [],
+      },
+      syllableTemplates,
+      vowelHarmony: { feature: 'none' },
+    })
+  test('nearest phonemes', () => expect(engine([['CVC', 1]]).nativize('Bob')).toBe('pup'))
+  test('open syllables', () => expect(engine([['CV', 1]]).nativize('strand')).toBe('sitilaniti'))
+  test('topics', () => {
+    const language = new Language({ seed: 1, nativizeTopics: true })
+    expect(language.config().nativizeTopics).toBe(true)
+    expect(language.nativize('Xerxes')).toBe('kiserkses')
+    expect(language.nounPhrase('Xerxes')).toMatch(/kiserkses/i)
+  })
+})
+
+describe('sound changes', () => {
+  const phonology = new PhonologyEngine({
+    tone: { tones: 0 },
+    vowels: { vocalicSyllableNuclei: ['a', 'e', 'i'], diphthongs: [], nasalVowels: [], longVowels: false },
+    consonants: { stops: ['p', 'b', 't'], nasals: ['n'], fricatives: ['v'], approximants: [] },
+    syllableTemplates: [['CVC', 1]],
+  })
+  const change = (type: SoundChange['type'], from: string, to: string, environment: SoundChange['environment']) =>
+    makeSoundChanger([{ type, from, to, environment }], phonology)
+  test('lenition', () => expect(change('lenition', 'p', 'b', 'intervocalic')('papap')).toBe('pabap'))
+  test('final consonant loss', () => expect(change('finalConsonantLoss', 't', '', 'final')('tatant')).toBe('tatan'))
+  test('vowel shift', () => expect(change('vowelShift', 'a', 'e', 'everywhere')('pa\u0301tan')).toBe('pe\u0301ten'))
+  test('in order', () => {
+    const changes: SoundChange[] = [
+      { type: 'lenition', from: 'p', to: 'b', environment: 'intervocalic' },
+      { type: 'lenition', from: 'b', to: 'v', environment: 'intervocalic' },
+    ]
+    expect(makeSoundChanger(changes, phonology)('apa')).toBe('ava')
+  })
+  test('regular', () => {
+    const language = new Language({ seed: 1 })
+    const changes: SoundChange[] = [{ type: 'merger', from: 'z', to: 's', environment: 'everywhere' }]
+    const changed = new Language({ seed: 1, soundChanges: changes })
+    expect(changed.essay()).toBe(language.essay().replace(/z/g, 's').replace(/Z/g, 'S'))
+  })
+  test('derive', () => {
+    const parent = new Language({ seed: 1 })
+    const daughter = parent.derive({ generations: 3, seed: 2 })
+    const changes = daughter.config().soundChanges!
+    expect(changes.length).toBeGreaterThan(0)
+    const inventory = parent.phonology.consonants().concat(parent.phonology.vowels(), '')
+    for (const { from, to } of changes) {
+      expect(inventory).toContain(from)
+      expect(inventory).toContain(to)
+    }
+    expect(daughter.config().phonology).toEqual(parent.config().phonology)
+    const granddaughter = daughter.derive({ seed: 3 })
+    expect(granddaughter.config().soundChanges!.slice(0, changes.length)).toEqual(changes)
+  })
+  test('cognates', () => {
+    for (let seed = 1; seed <= 4; seed++) {
+      const parent = new Language({ seed })
+      const daughter = parent.derive({ generations: 2, seed: 7 })
+      const change = makeSoundChanger(daughter.config().soundChanges!, parent.phonology)
+      for (let i = 0; i < 10; i++) {
+        expect(daughter.syntax.adposition()).toBe(parent.syntax.adposition())
+        expect(daughter.morphology.particle()).toBe(parent.morphology.particle())
+        const stem = parent.morphology.nounStem()
+        expect(daughter.morphology.nounStem()).toBe(stem)
+        expect(daughter.inflect(stem)).toBe(change(parent.morphology.form(stem, 'noun')))
+      }
+    }
+  })
+})
+
+describe('orthography', () => {
+  const phonology = new PhonologyEngine({
+    tone: { tones: 0 },
+    vowels: { vocalicSyllableNuclei: ['a', 'ö'], diphthongs: [], nasalVowels: [], longVowels: false },
+    consonants: { stops: ['p', 'th'], nasals: ['ng'], fricatives: ['dh'], approximants: [] },
+  })
+  test('digraph', () => expect(makeSpeller('digraph', phonology).write('Ngöth.')).toBe('Ngoeth.'))
+  test('diacritic', () => expect(makeSpeller('diacritic', phonology).write('Ngöth.')).toBe('Ŋöṫ.'))
+  test('ascii', () => expect(makeSpeller('ascii', phonology).write('ngö̃dh')).toBe('ngoedh'))
+  test('ipa', () => expect(makeSpeller('ipa', phonology).write('ngödh')).toBe('ŋøð'))
+  test('custom', () => expect(makeSpeller({ ng: 'ŋ', ö: 'œ' }, phonology).write('ngöp')).toBe('ŋœp'))
+  test('reading', () => {
+    const speller = makeSpeller('diacritic', phonology)
+    expect(speller.read(speller.write('Ngathödh'))).toBe('Ngathödh')
+  })
+  test('distinct spellings', () => {
+    const every = new PhonologyEngine({ consonants: { stops: allConsonants } })
+    for (const o of ['digraph', 'diacritic', 'ascii', 'ipa'] as const) {
+      const speller = makeSpeller(o, every)
+      for (const c of allConsonants) expect(speller.read(speller.write(c))).toBe(c)
+    }
+  })
+  test('same language', () => {
+    const ascii = new Language({ seed: 3, orthography: 'ascii' })
+    expect(ascii.config().phonology).toEqual(new Language({ seed: 3 }).config().phonology)
+    expect(ascii.essay(2)).toMatch(/^[\x00-\x7f]*$/)
+  })
+})
+
+describe('script', () => {
+  const phonology = new PhonologyEngine({
+    tone: { tones: 0 },
+    vowels: { vocalicSyllableNuclei: ['a', 'ö'], diphthongs: [], nasalVowels: [], longVowels: false },
+    consonants: { stops: ['p', 'th'], nasals: ['ng'], fricatives: ['s'], approximants: [] },
+  })
+  test('cyrillic', () => expect(makeScript('cyrillic', 'default', phonology).write('Ngöth.')).toBe('Ңөтһ.'))
+  test('greek', () => expect(makeScript('greek', 'default', phonology).write('Pas ngösa.')).toBe('Πας γγωσα.'))
+  test('georgian', () => expect(makeScript('georgian', 'default', phonology).write('Pangöth.')).toBe('ფანგჵთ.'))
+  test('hangul', () => expect(makeScript('hangul', 'default', phonology).write('Pathas spö.')).toBe('파탓 스푀.'))
+  test('abjad', () => {
+    expect(makeScript('hebrew', 'default', phonology).write('Pasa ngöth.')).toBe('\u2067פסה נגת.\u2069')
+    expect(makeScript('hebrew', 'default', phonology, true).write('Pasa ngöth.')).toBe('\u2067פַסַה נגֹת.\u2069')
+  })
+  test('embedded left-to-right text', () => {
+    const script = makeScript('arabic', 'default', phonology)
+    expect(script.write('Apas, 2024 foo?')).toBe('\u2067اپس، \u20662024 foo\u2069؟\u2069')
+  })
+  test('right-to-left paragraphs', () => {
+    for (const paragraph of new Language({ seed: 4, script: 'hebrew' }).essay(3).split('\n\n')) {
+      expect(paragraph).toMatch(/^\u2067.*\u2069$/)
+    }
+  })
+  test('reading', () => {
+    const abjad = makeScript('hebrew', 'default', phonology, true)
+    expect(abjad.read(abjad.write('Pasa ngöth.'))).toBe('pasa ngöth.')
+    const script = makeScript('greek', 'default', phonology)
+    expect(script.read(script.write('Pas ngösa.'))).toBe('Pas ngösa.')
+  })
+  test('same language', () => {
+    for (const script of ['cyrillic', 'greek', 'georgian', 'hangul'] as const) {
+      const language = new Language({ seed: 4, script })
+      expect(language.config().phonology).toEqual(new Language({ seed: 4 }).config().phonology)
+      expect(language.essay(2)).not.toMatch(/[a-z]/i)
+    }
+  })
+})
+
+describe('writing system', () => {
+  const phonology = (syllableTemplates: [string, number][]) =>
+    new PhonologyEngine({
+      tone: { tones: 0 },
+      stress: { placement: 'none' },
+      vowels: { vocalicSyllableNuclei: ['a', 'i'], diphthongs: [], nasalVowels: [], longVowels: false },
+      consonants: { stops: ['p', 't'], nasals: ['n'], fricatives: ['s'], approximants: [] },
+      syllableTemplates,
+    })
+  test('syllabary', () => {
+    const p = phonology([['CV', 1]])
+    const writing = new WritingSystem(p)
+    expect(writing.config().type).toBe('syllabary')
+    // a vowel alone or after each consonant
+    expect(writing.glyphs().filter((g) => g.kind === 'syllable').length).toBe((p.consonants().length + 1) * 2)
+  })
+  test('abugida', () => expect(new WritingSystem(phonology([['CCVC', 1]])).config().type).toBe('abugida'))
+  test('alphabet', () => expect(new WritingSystem(phonology([['CVCC', 1]])).config().type).toBe('alphabet'))
+  test('glyphs', () => {
+    const glyphs = new WritingSystem(phonology([['CV', 1]])).glyphs()
+    expect(glyphs[0].character).toBe('\ue000')
+    expect(new Set(glyphs.map((g) => g.svg)).size).toBe(glyphs.length)
+  })
+  test('reading', () => {
+    for (const type of ['alphabet', 'abugida', 'syllabary'] as const) {
+      const writing = new WritingSystem(phonology([['CV', 1]]), { type })
+      const text = writing.write('Pasit tan.')
+      expect(text).toMatch(/^[\ue000-\uf8ff]+ [\ue000-\uf8ff]+\.$/)
+      expect(writing.read(text)).toBe('pasit tan.')
+    }
+  })
+  test('export', () => {
+    const writing = new Language({ seed: 2 }).writingSystem
+    const files = writing.files()
+    const mapping = JSON.parse(files['mapping.json'])
+    expect(mapping.glyphs.length).toBe(writing.glyphs().length)
+    for (const glyph of mapping.glyphs) expect(files[glyph.file]).toMatch(/^<svg/)
+  })
+  test('same language', () => {
+    const language = new Language({ seed: 2, script: 'invented' })
+    expect(language.config().phonology).toEqual(new Language({ seed: 2 }).config().phonology)
+  })
+})
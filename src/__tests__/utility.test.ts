@@ -1,4 +1,4 @@
-import { capitalize, combinations, compact, subsets, titleize } from '../util'
+import { capitalize, combinations, compact, hash, isCombiningMark, subsets, titleize } from '../util'
 
 describe('compact', () => {
   test('gets rid of both null and undefined', () => expect(compact([1, null, 2, undefined])).toEqual([1, 2]))
@@ -28,6 +28,7 @@ describe('capitalize', () => {
   test('foo', () => expect(capitalize('foo')).toEqual('Foo'))
   test('foo bar', () => expect(capitalize('foo bar')).toEqual('Foo bar'))
   test('Foo', () => expect(capitalize('Foo')).toEqual('Foo'))
+  test('stressed', () => expect(capitalize('ˈfoo')).toEqual('ˈFoo'))
 })
 
 describe('titleize', () => {
@@ -50,3 +51,14 @@ describe('subsets', () => {
   })
   test('[1, 2, 3', () => expect(ssets).toEqual([[1], [2], [3], [1, 2], [1, 3], [2, 3], [1, 2, 3]]))
 })
+
+describe('isCombiningMark', () => {
+  test('acute', () => expect(isCombiningMark('\u0301')).toBe(true))
+  test('rising-falling', () => expect(isCombiningMark('\u1DC8')).toBe(true))
+  test('a', () => expect(isCombiningMark('a')).toBe(false))
+})
+
+describe('hash', () => {
+  test('stable', () => expect(hash('foo')).toBe(hash('foo')))
+  test('distinct', () => expect(hash('foo')).not.toBe(hash('bar')))
+})
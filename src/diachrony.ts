@@ -0,0 +1,200 @@
+import { pickMeToo, Rng } from 'pick-me-too'
+import { PhonologyEngine } from './phonology'
+import { assertNever, Hmm, isCombiningMark } from './util'
+
+/**
+ * A regular sound change: wherever the phoneme appears in the environment it becomes another
+ * phoneme or, if `to` is empty, is lost. Changes only ever produce phonemes the language
+ * already has, so daughter languages keep their parent's inventory.
+ */
+export type SoundChange = {
+  type: SoundChangeType
+  from: string
+  to: string
+  environment: SoundChangeEnvironment
+}
+
+type SoundChangeType = 'lenition' | 'merger' | 'vowelShift' | 'finalConsonantLoss'
+
+// between vowels or after the last vowel of a word
+type SoundChangeEnvironment = 'everywhere' | 'intervocalic' | 'final'
+
+const soundChangeTypePicker = pickMeToo<SoundChangeType>([
+  ['lenition', 4],
+  ['vowelShift', 3],
+  ['merger', 2],
+  ['finalConsonantLoss', 1],
+])
+
+// the vowels a vowel may shift to: a step up, down, forward, or back
+const vowelNeighbors: Record<string, string[]> = {
+  a: ['ä', 'ë', 'o', 'e'],
+  ä: ['e', 'a'],
+  e: ['i', 'ä', 'ë'],
+  ë: ['e', 'a', 'o'],
+  i: ['e', 'y'],
+  o: ['u', 'a', 'ö'],
+  ö: ['e', 'o', 'y'],
+  u: ['o', 'y'],
+  y: ['i', 'u', 'ö'],
+}
+
+// the manners whose final members may be lost together
+const lossManners = ['stops', 'fricatives', 'nasals']
+
+/**
+ * Picks the sound changes of some generations of a language's history, each generation
+ * bringing one or two changes.
+ *
+ * @param p - the phonology of the parent language
+ * @param previous - the sound changes the parent language has already undergone
+ * @param generations - the number of generations
+ * @param rng - a random number generator
+ * @returns the new sound changes in the order they apply
+ */
+export function pickSoundChanges(
+  p: Readonly<PhonologyEngine>,
+  previous: SoundChange[],
+  generations: number,
+  rng: Rng,
+): SoundChange[] {
+  const h = new Hmm(rng)
+  const consonants = p.consonants()
+  const vowels = p.config().vowels?.vocalicSyllableNuclei ?? []
+  // phonemes merged away are gone, and those they merged with take part in no more mergers
+  const lost: Set<string> = new Set()
+  const merged: Set<string> = new Set()
+  const done: Set<string> = new Set()
+  const note = (change: SoundChange) => {
+    if (change.environment === 'everywhere') {
+      lost.add(change.from)
+      merged.add(change.to)
+    }
+    done.add(`${change.from} ${change.environment}`)
+  }
+  for (const change of previous) note(change)
+  const changes: SoundChange[] = []
+  const record = (change: SoundChange) => {
+    note(change)
+    changes.push(change)
+  }
+  // whether a change from one phoneme to another is possible and new
+  const possible = (from: string, to: string, environment: SoundChangeEnvironment) =>
+    !lost.has(from) &&
+    !merged.has(from) &&
+    !lost.has(to) &&
+    !done.has(`${from} ${environment}`) &&
+    (environment !== 'everywhere' || !merged.has(to))
+  // the consonant in the inventory sharing all features but the given ones with another
+  const counterpart = (c: string, change: { manner?: string; voicing?: string; place?: string }) => {
+    const f = p.features(c)
+    if (!f) return undefined
+    const target = { ...f, ...change }
+    return consonants.find((o) => {
+      const g = p.features(o)
+      return o !== c && g && g.place === target.place && g.manner === target.manner && g.voicing === target.voicing
+    })
+  }
+  const type = soundChangeTypePicker(rng)
+  for (let g = 0; g < generations; g++) {
+    for (let i = 0, n = h.maybe(0.6) ? 1 : 2; i < n; i++) {
+      const candidates: SoundChange[] = []
+      const t = type()
+      switch (t) {
+        case 'lenition':
+          // stops are voiced and then become fricatives between vowels
+          for (const c of consonants) {
+            const f = p.features(c)
+            if (f?.manner !== 'stops') continue
+            const to =
+              f.voicing === 'unvoiced'
+                ? counterpart(c, { voicing: 'voiced' })
+                : counterpart(c, { manner: 'fricatives' })
+            if (to && possible(c, to, 'intervocalic')) {
+              candidates.push({ type: t, from: c, to, environment: 'intervocalic' })
+            }
+          }
+          break
+        case 'merger':
+          for (const c of consonants) {
+            for (const to of [counterpart(c, { voicing: 'unvoiced' }), counterpart(c, { voicing: 'voiced' })]) {
+              if (to && possible(c, to, 'everywhere')) {
+                candidates.push({ type: t, from: c, to, environment: 'everywhere' })
+              }
+            }
+          }
+          break
+        case 'vowelShift':
+          for (const v of vowels) {
+            for (const to of vowelNeighbors[v] ?? []) {
+              if (vowels.includes(to) && possible(v, to, 'everywhere')) {
+                candidates.push({ type: t, from: v, to, environment: 'everywhere' })
+              }
+            }
+          }
+          break
+        case 'finalConsonantLoss': {
+          // a whole class of consonants is lost at once
+          const manner = lossManners[Math.floor(h.n() * lossManners.length) % lossManners.length]
+          for (const c of consonants) {
+            if (p.features(c)?.manner === manner && possible(c, '', 'final')) {
+              record({ type: t, from: c, to: '', environment: 'final' })
+            }
+          }
+          break
+        }
+        default:
+          assertNever(t)
+      }
+      if (candidates.length) record(candidates[Math.floor(h.n() * candidates.length) % candidates.length])
+    }
+  }
+  return changes
+}
+
+/**
+ * Makes the function that applies sound changes to a word.
+ *
+ * @param changes - the sound changes in the order they apply
+ * @param p - the phonology of the language
+ * @returns a function from a word to its descendant
+ */
+export function makeSoundChanger(changes: SoundChange[], p: Readonly<PhonologyEngine>): (word: string) => string {
+  const letters = (segment: string) =>
+    Array.from(segment)
+      .filter((c) => !isCombiningMark(c) && c !== 'ː')
+      .join('')
+  const isPhoneme = (s: string) => !/^[0-9ˈˌ]$/.test(s)
+  return (word: string) => {
+    const segments = p.segments(word)
+    for (const { from, to, environment } of changes) {
+      for (let i = 0; i < segments.length; i++) {
+        const s = segments[i]
+        const vowel = p.isVowel(s)
+        if (vowel ? letters(s) !== from : s !== from) continue
+        // the phonemes on either side
+        let before = i - 1,
+          after = i + 1
+        while (before >= 0 && !isPhoneme(segments[before])) before--
+        while (after < segments.length && !isPhoneme(segments[after])) after++
+        switch (environment) {
+          case 'everywhere':
+            break
+          case 'intervocalic':
+            if (before < 0 || after === segments.length) continue
+            if (!p.isVowel(segments[before]) || !p.isVowel(segments[after])) continue
+            break
+          case 'final':
+            if (segments.slice(i + 1).some((o) => p.isVowel(o))) continue
+            break
+          default:
+            assertNever(environment)
+        }
+        if (!to) segments.splice(i--, 1)
+        // a vowel keeps its diacritics and length
+        else segments[i] = vowel ? to + s.slice(from.length) : to
+      }
+    }
+    return segments.join('')
+  }
+}
@@ -0,0 +1,164 @@
+import { isCombiningMark } from './util'
+
+/**
+ * The smallest meaningful part of a word. Lexical stems are glossed by their part of speech, such
+ * as 'noun', for want of a meaning, and grammatical morphemes by abbreviations following the Leipzig
+ * glossing rules, such as 'PST' or '1SG'.
+ */
+export type Morpheme = {
+  /**
+   * The form of the morpheme before the sound changes where it meets its neighbors.
+   */
+  form: string
+  gloss: string
+  /**
+   * A reduplicant is a copy of all or part of the stem, next to it.
+   */
+  type: 'stem' | 'prefix' | 'suffix' | 'infix' | 'reduplicant'
+  /**
+   * For an infix, the position in the form of the stem at which it is inserted.
+   */
+  position?: number
+}
+
+/**
+ * A word and the morphemes it is made of, in order.
+ */
+export type GlossedWord = {
+  form: string
+  morphemes: Morpheme[]
+}
+
+/**
+ * A sentence and its words, ready for interlinear glossing.
+ */
+export type GlossedSentence = {
+  /**
+   * The sentence as it is written, the forms of its words separated by spaces.
+   */
+  text: string
+  words: GlossedWord[]
+}
+
+// the standard abbreviations where Leipzig provides them
+const abbreviations: Record<string, string> = {
+  active: 'ACT',
+  passive: 'PASS',
+  middle: 'MID',
+  causative: 'CAUS',
+  applicative: 'APPL',
+  perfective: 'PFV',
+  imperfective: 'IPFV',
+  progressive: 'PROG',
+  habitual: 'HAB',
+  perfect: 'PRF',
+  present: 'PRS',
+  past: 'PST',
+  future: 'FUT',
+  remotePast: 'REM.PST',
+  nearFuture: 'NEAR.FUT',
+  indicative: 'IND',
+  subjunctive: 'SBJV',
+  imperative: 'IMP',
+  conditional: 'COND',
+  optative: 'OPT',
+  singular: 'SG',
+  plural: 'PL',
+  dual: 'DU',
+  paucal: 'PAUC',
+  intensive: 'INTS',
+  indefinite: 'INDF',
+  definite: 'DEF',
+  specific: 'SPEC',
+  nominative: 'NOM',
+  accusative: 'ACC',
+  ergative: 'ERG',
+  absolutive: 'ABS',
+  dative: 'DAT',
+  oblique: 'OBL',
+}
+
+/**
+ * Gives the gloss abbreviation of a feature value, such as 'PST' for 'past' or '1SG' for '1sg'.
+ *
+ * @param value - an inflectional feature value
+ * @returns the abbreviation
+ */
+export function abbreviate(value: string): string {
+  return abbreviations[value] ?? value.toUpperCase()
+}
+
+/**
+ * Formats a sentence as three lines of plain text: the words as written, their morphemes
+ * separated by hyphens, and the glosses of the morphemes, each word aligned over its parts.
+ *
+ * @param sentence - a glossed sentence
+ * @returns the interlinear text
+ */
+export function interlinearText(sentence: GlossedSentence): string {
+  const columns = interlinearColumns(sentence)
+  const widths = columns.map((column) => Math.max(...column.map(width)))
+  return [0, 1, 2]
+    .map((line) =>
+      columns
+        .map((column, i) => column[line] + ' '.repeat(widths[i] - width(column[line])))
+        .join('  ')
+        .replace(/\s+$/, ''),
+    )
+    .join('\n')
+}
+
+/**
+ * Formats a sentence as an HTML table of three rows: the words as written, their morphemes, and
+ * the glosses of the morphemes, with a column for each word.
+ *
+ * @param sentence - a glossed sentence
+ * @returns the interlinear text as an HTML table
+ */
+export function interlinearHtml(sentence: GlossedSentence): string {
+  const columns = interlinearColumns(sentence)
+  const rows = ['text', 'morphemes', 'glosses'].map(
+    (name, line) =>
+      `<tr class="${name}">` + columns.map((column) => `<td>${escapeHtml(column[line])}</td>`).join('') + '</tr>',
+  )
+  return `<table class="interlinear">${rows.join('')}</table>`
+}
+
+// each word as written, segmented, and glossed
+function interlinearColumns({ text, words }: GlossedSentence): [string, string, string][] {
+  const written = text.split(' ')
+  return words.map((word, i) => [written[i] ?? word.form, segment(word, 'form'), segment(word, 'gloss')])
+}
+
+// the morphemes of a word or their glosses, with an infix in angle brackets and its gloss before
+// the stem's, and a reduplicant joined to the stem by a tilde
+function segment({ morphemes }: GlossedWord, part: 'form' | 'gloss'): string {
+  const infix = morphemes.find((m) => m.type === 'infix')
+  const parts = morphemes.filter((m) => m.type !== 'infix')
+  const stem = parts.findIndex((m) => m.type === 'stem')
+  return parts
+    .map((m, i) => {
+      switch (m.type) {
+        case 'prefix':
+          return `${m[part]}-`
+        case 'suffix':
+          return `-${m[part]}`
+        case 'reduplicant':
+          return i < stem ? `${m[part]}~` : `~${m[part]}`
+        default:
+          if (!infix) return m[part]
+          if (part === 'gloss') return `<${infix.gloss}>${m.gloss}`
+          return `${m.form.slice(0, infix.position)}<${infix.form}>${m.form.slice(infix.position)}`
+      }
+    })
+    .join('')
+}
+
+// the width of a string in a fixed-width font
+function width(s: string): number {
+  return Array.from(s).filter((c) => !isCombiningMark(c)).length
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
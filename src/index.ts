@@ -1,3 +1,4 @@
+import { interlinearHtml, interlinearText } from './gloss'
 import { Language } from './language'
 
-export { Language }
+export { interlinearHtml, interlinearText, Language }
@@ -1,8 +1,12 @@
 import { pickMe, pickMeToo, rando, Rng } from 'pick-me-too'
-import { Morphology, MorphologyEngine } from './morphology'
+import { makeSoundChanger, pickSoundChanges, SoundChange } from './diachrony'
+import { Features, Morphology, MorphologyEngine, PartOfSpeech, verbalCategories } from './morphology'
+import { byWord, Orthography, Speller } from './orthography'
 import { Phonology, PhonologyEngine } from './phonology'
-import { Syntax, SyntaxEngine } from './syntax'
-import { Hmm, titleize } from './util'
+import { makeScript, Script } from './script'
+import { driftSyntax, Syntax, SyntaxEngine } from './syntax'
+import { dupParams, Hmm, titleize } from './util'
+import { Writing, WritingSystem } from './writing'
 
 export type LanguageParams = {
   seed?: number
@@ -10,9 +14,50 @@ export type LanguageParams = {
   phonology?: Phonology
   morphology?: Morphology
   syntax?: Syntax
+  /**
+   * How the language is spelled; by default, in the spellings of the phonology's phonemes.
+   */
+  orthography?: Orthography
+  /**
+   * The script the language is written in; by default, 'latin'. Other scripts ignore the orthography.
+   */
+  script?: Script
+  /**
+   * Whether the abjads write short vowels as optional marks; by default they leave them out.
+   */
+  vowelMarks?: boolean
+  /**
+   * The parameters of the language's invented script.
+   */
+  writing?: Writing
+  /**
+   * Whether text is rendered as a narrow phonetic transcription, showing the phonology's allophony,
+   * rather than spelled phonemically; by default it is spelled.
+   */
+  phonetic?: boolean
+  /**
+   * The regular sound changes, in the order they apply, that every word of the language has
+   * undergone since it split from its parent; see `Language.derive`.
+   */
+  soundChanges?: SoundChange[]
+  /**
+   * Whether topics passed to the language's methods are nativized first; by default they are used as they are.
+   */
+  nativizeTopics?: boolean
   rngGenerator?: (seed: number) => Rng
 }
 
+export type DerivationParams = {
+  /**
+   * The number of generations of change; by default, 1.
+   */
+  generations?: number
+  /**
+   * The seed of the random number generator that picks the changes.
+   */
+  seed?: number
+}
+
 /**
  * A generator of gibberish.
  */
@@ -29,6 +74,10 @@ export class Language {
    * The language's syntactic engine.
    */
   syntax: Readonly<SyntaxEngine>
+  /**
+   * The language's invented script, used when its script is 'invented'.
+   */
+  writingSystem: Readonly<WritingSystem>
   /**
    * The name of the language in the language itself.
    */
@@ -39,17 +88,68 @@ export class Language {
   private topicCount: () => number
   private subtopicCount: () => number
   private seed: number
+  private orthography: Orthography
+  private script: Script
+  private vowelMarks: boolean
+  private phonetic: boolean
+  private soundChanges: SoundChange[]
+  private nativizeTopics: boolean
+  private changeSounds: (word: string) => string
+  private speller: Speller
+  private params: LanguageParams
   /**
    * Creates an instance of language.
-   * @param [{ seed, name, phonology, morphology, syntax, rngGenerator }] 
+   * @param [{ seed, name, phonology, morphology, syntax, orthography, script, vowelMarks, writing, phonetic, soundChanges, nativizeTopics, rngGenerator }] 
    */
-  constructor({ seed, name, phonology, morphology, syntax, rngGenerator }: LanguageParams = {}) {
+  constructor({
+    seed,
+    name,
+    phonology,
+    morphology,
+    syntax,
+    orthography,
+    script,
+    vowelMarks,
+    writing,
+    phonetic,
+    soundChanges,
+    nativizeTopics,
+    rngGenerator,
+  }: LanguageParams = {}) {
     this.seed = seed ?? Math.random() * 1000
+    // the parameters as given, before the engines fill them in, so a daughter language makes the same words
+    this.params = dupParams({
+      seed: this.seed,
+      name,
+      phonology,
+      morphology,
+      syntax,
+      orthography,
+      script,
+      vowelMarks,
+      writing,
+      phonetic,
+      nativizeTopics,
+      rngGenerator,
+    })
     this.rng = (rngGenerator ?? rando)(this.seed)
     this.phonology = new PhonologyEngine(phonology, this.rng)
     this.morphology = new MorphologyEngine(this.phonology, morphology, this.rng)
     this.syntax = new SyntaxEngine(this.morphology, syntax, this.rng)
-    this.name = name ?? titleize(this.syntax.nounPhrase())
+    this.orthography = orthography ?? 'default'
+    this.script = script ?? 'latin'
+    this.vowelMarks = vowelMarks ?? false
+    this.phonetic = phonetic ?? false
+    this.soundChanges = soundChanges ?? []
+    this.changeSounds = makeSoundChanger(this.soundChanges, this.phonology)
+    this.nativizeTopics = nativizeTopics ?? false
+    // glyphs are drawn with a generator of their own so they do not change the text
+    this.writingSystem = new WritingSystem(this.phonology, writing, (rngGenerator ?? rando)(this.seed))
+    this.speller =
+      this.script === 'invented'
+        ? this.writingSystem
+        : makeScript(this.script, this.orthography, this.phonology, this.vowelMarks)
+    this.name = name ?? this.write(titleize(this.syntax.nounPhrase()))
     this.sentenceCount = sentenceCount(this.rng)
     this.sentenceType = sentenceType(this.rng)
     this.topicCount = topicCount(this.rng)
@@ -65,7 +165,7 @@ export class Language {
    * @returns assertion 
    */
   assertion(...topics: string[]): string {
-    return this.syntax.assertion(...topics)
+    return this.write(this.syntax.assertion(...this.topics(topics)))
   }
   /**
    * Makes a complete sentence expression a question, such as "Do you want cheese?",
@@ -75,7 +175,7 @@ export class Language {
    * @returns question 
    */
   question(...topics: string[]): string {
-    return this.syntax.question(...topics)
+    return this.write(this.syntax.question(...this.topics(topics)))
   }
   /**
    * Makes a complete sentence expression an exclamation, such as "Begone, foul demon of the pit!",
@@ -85,7 +185,7 @@ export class Language {
    * @returns exclamation 
    */
   exclamation(...topics: string[]): string {
-    return this.syntax.exclamation(...topics)
+    return this.write(this.syntax.exclamation(...this.topics(topics)))
   }
   /**
    * Makes a random noun phrase, such as "the fat cat", "Ricardo", or "hemorrhagic fever".
@@ -94,7 +194,36 @@ export class Language {
    * @returns phrase 
    */
   nounPhrase(topic?: string): string {
-    return this.syntax.nounPhrase(topic)
+    return this.write(this.syntax.nounPhrase(topic && this.topics([topic])[0]))
+  }
+  /**
+   * Adapts a word written in the Latin alphabet, such as a foreign name, to the sounds and
+   * syllables of this language.
+   *
+   * @param word - a word in the Latin alphabet
+   * @returns a noun stem that may be used as a topic
+   */
+  nativize(word: string): string {
+    return this.phonology.nativize(word)
+  }
+  /**
+   * Inflects a noun or verb stem for some features. A category that is not given takes its
+   * unmarked value. See `MorphologyEngine.paradigm` for the categories and values a stem has.
+   *
+   * @param stem - a stem, such as one from `morphology.nounStem`
+   * @param [features] - the features, such as `{ number: 'plural', case: 'accusative' }`
+   * @param [partOfSpeech] - whether the stem is a noun or a verb; if not given, a stem is a verb
+   *   only if a verbal category or person is among the features
+   * @returns the inflected word
+   * @throws if the language does not have a category or value given
+   */
+  inflect(stem: string, features: Features = {}, partOfSpeech?: PartOfSpeech): string {
+    const verbal = 'person' in features || verbalCategories.some((c) => c in features)
+    return this.write(this.morphology.form(stem, partOfSpeech ?? (verbal ? 'verb' : 'noun'), features))
+  }
+  // the topics supplied, nativized if the language nativizes them
+  private topics(topics: string[]): string[] {
+    return this.nativizeTopics ? topics.map((t) => this.nativize(t)) : topics
   }
   private makeTopics(max?: number): string[] {
     const ar = []
@@ -116,6 +245,10 @@ export class Language {
    * @returns paragraph 
    */
   paragraph(topics?: string[]): string {
+    return this.write(this.makeParagraph(topics && this.topics(topics)))
+  }
+  // a paragraph in the default orthography
+  private makeParagraph(topics?: string[]): string {
     topics ??= this.makeTopics(4)
     let lim = 2 // the maximum number of topics per sentence
     if (lim > topics.length) lim = topics.length
@@ -135,13 +268,13 @@ export class Language {
       }
       switch (this.sentenceType()) {
         case 'assertion':
-          sentences.push(this.assertion(...topics))
+          sentences.push(this.syntax.assertion(...topics))
           break
         case 'question':
-          sentences.push(this.question(...topics))
+          sentences.push(this.syntax.question(...topics))
           break
         case 'exclamation':
-          sentences.push(this.exclamation(...topics))
+          sentences.push(this.syntax.exclamation(...topics))
           break
       }
     }
@@ -157,7 +290,7 @@ export class Language {
   essay(paragraphs?: number, topics?: string[]): string {
     paragraphs ??= Math.round(new Hmm(this.rng).fromRange(3, 15))
     if (paragraphs < 1) throw 'an essay must have a positive number of paragraphs'
-    topics ??= this.makeTopics()
+    topics = topics ? this.topics(topics) : this.makeTopics()
     const frequencies: [string, number][] = []
     for (const t of topics) frequencies.push([t, this.rng()])
     const topicPicker = pickMe(frequencies, this.rng)
@@ -174,9 +307,60 @@ export class Language {
           subtopics.push(t)
         }
       }
-      text.push(this.paragraph(subtopics))
+      text.push(this.makeParagraph(subtopics))
+    }
+    return this.write(text.join('\n\n'))
+  }
+  /**
+   * Makes a broad IPA transcription of text in this language. Commas and other minor breaks
+   * are transcribed as |; the ends of sentences as ‖. The words of a phonetic language are
+   * already transcribed and are left as they are.
+   *
+   * @param text - text generated by this language
+   * @returns the transcription
+   */
+  transcribe(text: string): string {
+    // unwritten stress can only be predicted if it is placed on the whole word
+    const predictStress = this.morphology.config().stressShift
+    const ar: string[] = []
+    const read = this.phonetic ? text : this.speller.read(text)
+    for (const token of read.toLowerCase().split(/\s+/)) {
+      const [, word, punctuation] = /^(.*?)([.,;!?]*)$/.exec(token)!
+      if (word) ar.push(this.phonetic ? word : this.phonology.toIPA(word, predictStress))
+      if (/[.!?]/.test(punctuation)) ar.push('‖')
+      else if (punctuation) ar.push('|')
     }
-    return text.join('\n\n')
+    return ar.join(' ')
+  }
+  /**
+   * Derives a daughter language from this one. The daughter has the same lexicon, closed-class
+   * words, and adfixes, but every word has undergone a series of regular sound changes, and its
+   * syntax has drifted a little. The sound changes are recorded in its configuration, after any
+   * this language has undergone itself.
+   *
+   * @param [{ generations, seed }] - optional parameters
+   * @returns the daughter language
+   */
+  derive({ generations, seed }: DerivationParams = {}): Language {
+    generations ??= 1
+    const rng = (this.params.rngGenerator ?? rando)(seed ?? Math.random() * 1000)
+    const params = dupParams(this.params)
+    // the daughter has a name of its own
+    delete params.name
+    // the syntax engine draws on the random number generator the same way whatever its configuration,
+    // so drifting the syntax leaves the words alone
+    params.syntax = driftSyntax(dupParams(this.syntax.config()), generations, rng)
+    params.soundChanges = this.soundChanges.concat(
+      pickSoundChanges(this.phonology, this.soundChanges, generations, rng),
+    )
+    return new Language(params)
+  }
+  // spells text or, if the language is phonetic, transcribes it narrowly word by word
+  private write(text: string): string {
+    if (this.soundChanges.length) text = byWord(text, this.changeSounds)
+    if (!this.phonetic) return this.speller.write(text)
+    const predictStress = this.morphology.config().stressShift
+    return text.replace(/[^\s.,;!?]+/g, (word) => this.phonology.toIPA(word.toLowerCase(), predictStress, true))
   }
   /**
    * Randomly resets the seed of the random number generator to make
@@ -203,6 +387,13 @@ export class Language {
       phonology: this.phonology.config(),
       morphology: this.morphology.config(),
       syntax: this.syntax.config(),
+      orthography: this.orthography,
+      script: this.script,
+      vowelMarks: this.vowelMarks,
+      writing: this.writingSystem.config(),
+      phonetic: this.phonetic,
+      soundChanges: this.soundChanges,
+      nativizeTopics: this.nativizeTopics,
     }
   }
 }
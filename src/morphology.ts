@@ -1,23 +1,272 @@
 import { pickMe, pickMeToo, Rng } from 'pick-me-too'
-import { Phonology, PhonologyEngine } from './phonology'
-import { assertNever, Hmm, shuffle, uniqBy } from './util'
+import { abbreviate, GlossedWord, Morpheme } from './gloss'
+import { Joiner, Morphophonology, pickMorphophonology } from './morphophonology'
+import { Phonology, PhonologyEngine, Tone } from './phonology'
+import { assertNever, combinations, hash, Hmm, isCombiningMark, shuffle, uniqBy } from './util'
 
 export type Morphology = {
   analytic?: boolean
   verbalInflections?: boolean
   nominalInflections?: boolean
+  /**
+   * The categories verbs inflect for by adfixes, from the one nearest the stem outward.
+   */
+  verbalCategories?: VerbalCategory[]
+  /**
+   * The categories nouns inflect for by adfixes, from the one nearest the stem outward.
+   */
+  nominalCategories?: NominalCategory[]
   derivationalAdfixes?: boolean
   stemComplexity?: StemComplexity
   adfixStyle?: AdfixStyle
+  /**
+   * Where an infix goes in an infixing language: after the onset of the first syllable, as
+   * Tagalog s-um-ulat, or after the whole first syllable.
+   */
+  infixPosition?: InfixPosition
+  /**
+   * In a tonal language, either the tone every adfix syllable bears or 'lexical', meaning
+   * adfix syllables bear tones at random, like any other syllable.
+   */
+  affixTone?: Tone | 'lexical'
+  /**
+   * The sound changes that apply where stems and adfixes meet.
+   */
+  morphophonology?: Morphophonology
+  /**
+   * Whether stress is placed on the whole word, so it moves as adfixes are added, or stays
+   * where it falls in the bare stem.
+   */
+  stressShift?: boolean
+  /**
+   * The categories marked by copying all or part of a stem.
+   */
+  reduplication?: Reduplication
+  /**
+   * How noun stems are built from other stems.
+   */
+  compounding?: Compounding
+  /**
+   * The classes, or genders, nouns fall into, which the words agreeing with them mark.
+   */
+  nounClasses?: NounClasses
+  /**
+   * Whether the case of a verb's sole argument is that of the subject or that of the object of
+   * a transitive verb, or whether nouns are not marked for case at all.
+   */
+  alignment?: Alignment
+  /**
+   * The marker of each case in the language's inventory, '' for an unmarked case.
+   */
+  cases?: Partial<Record<Case, string>>
+  /**
+   * The markers on verbs of the person and number of their subjects, '' where a person and
+   * number is unmarked. Agreement is rich if at least five of the six are told apart.
+   */
+  personMarkers?: Partial<Record<PersonNumber, string>>
+}
+
+type Alignment = 'nominativeAccusative' | 'ergativeAbsolutive' | 'neutral'
+
+/**
+ * A grammatical case. The subject of an intransitive verb takes the nominative in a
+ * nominative-accusative language and the absolutive in an ergative-absolutive one; the third
+ * argument of a verb takes the dative, and the object of an adposition whatever it governs.
+ */
+export type Case = 'nominative' | 'accusative' | 'ergative' | 'absolutive' | 'dative' | 'oblique'
+
+// based loosely on WALS's survey of the case marking of full noun phrases
+const alignmentPicker = pickMeToo<Alignment>([
+  ['neutral', 4],
+  ['nominativeAccusative', 3],
+  ['ergativeAbsolutive', 1],
+])
+
+const alignmentCases: Record<Alignment, Case[]> = {
+  nominativeAccusative: ['nominative', 'accusative', 'dative', 'oblique'],
+  ergativeAbsolutive: ['ergative', 'absolutive', 'dative', 'oblique'],
+  neutral: [],
 }
 
+/**
+ * The person and number of a subject or pronoun: first, second, or third person, singular or plural.
+ */
+export type PersonNumber = '1sg' | '2sg' | '3sg' | '1pl' | '2pl' | '3pl'
+
+export const personNumbers: PersonNumber[] = ['1sg', '2sg', '3sg', '1pl', '2pl', '3pl']
+
+export type VerbalCategory = 'voice' | 'aspect' | 'tense' | 'mood' | 'intensity'
+
+export type NominalCategory = 'number' | 'definiteness'
+
+/**
+ * A bundle of inflectional features, such as `{ tense: 'past', person: '1sg' }`. Besides the
+ * categories of their slots, nouns have case and verbs the person and number of their subjects.
+ */
+export type Features = Partial<Record<VerbalCategory | NominalCategory | 'case' | 'person', string>>
+
+export type PartOfSpeech = 'noun' | 'verb'
+
+// the values of each category, the unmarked one first; a language has the first two or more
+const verbalValues: Record<VerbalCategory, string[]> = {
+  voice: ['active', 'passive', 'middle', 'causative', 'applicative'],
+  aspect: ['perfective', 'imperfective', 'progressive', 'habitual', 'perfect'],
+  tense: ['present', 'past', 'future', 'remotePast', 'nearFuture'],
+  mood: ['indicative', 'subjunctive', 'imperative', 'conditional', 'optative'],
+  intensity: ['plain', 'intensive'],
+}
+
+const inflectionalValues: Record<VerbalCategory | NominalCategory, string[]> = {
+  ...verbalValues,
+  number: ['singular', 'plural', 'dual', 'paucal'],
+  definiteness: ['indefinite', 'definite', 'specific'],
+}
+
+/**
+ * Every category a verb may inflect for.
+ */
+export const verbalCategories = Object.keys(verbalValues) as VerbalCategory[]
+
+// the verbal categories from the one that tends to be nearest the stem outward
+const verbalCategoryOrder: VerbalCategory[] = ['voice', 'aspect', 'tense', 'mood']
+
+// an inflectional slot: the adfix marking each value of its category, split into the part before
+// the stem and the part after, and a picker of values by frequency; one value may be marked by
+// reduplication instead
+type Slot = {
+  category: VerbalCategory | NominalCategory
+  position: 'prefix' | 'suffix' | 'infix' | 'circumfix'
+  values: string[]
+  adfixes: Record<string, [string, string]>
+  pick: () => string
+  reduplication?: { value: string; copy: Reduplicant }
+}
+
+// inflects a stem with some gloss for some features and random values of any other categories
+type Inflector = (stem: string, gloss: string, features?: Features, loan?: boolean) => GlossedWord
+
+/**
+ * A system of noun classes. Every noun stem belongs to one class, and its modifiers and the verb
+ * of which it is the subject bear that class's marker.
+ */
+export type NounClasses = {
+  /**
+   * The number of classes; 0 if nouns have no classes.
+   */
+  count?: number
+  /**
+   * How a stem's class is decided: by its last vowel, as with Spanish -o and -a, or arbitrarily.
+   * A compound takes the class of its head.
+   */
+  assignment?: 'phonological' | 'arbitrary'
+  /**
+   * The agreement marker of each class.
+   */
+  markers?: string[]
+  /**
+   * Whether the markers are prefixes, as in Bantu languages, or suffixes.
+   */
+  markerPosition?: 'prefix' | 'suffix'
+}
+
+/**
+ * The making of compound nouns out of two or more stems. The head of a compound is a new stem;
+ * the members modifying it tend to be the language's frequent stems.
+ */
+export type Compounding = {
+  /**
+   * The probability that a noun stem is a compound; 0 if the language does not compound.
+   */
+  probability?: number
+  /**
+   * Whether the head comes first or last.
+   */
+  head?: 'left' | 'right'
+  /**
+   * A morpheme joining the members, like the -s- of German Arbeitsamt, or '' if there is none.
+   */
+  linker?: string
+  /**
+   * The most stems a compound may have.
+   */
+  maxStems?: number
+  /**
+   * The probability that a modifying member is one of the frequent stems.
+   */
+  reuse?: number
+}
+
+/**
+ * How each category that may be marked by reduplication copies the stem, if it does. Plurals
+ * are marked on nouns, imperfective aspect and intensity on verbs, and derivation on new stems of
+ * either kind. A noun or verb reduplicated for a category inflects for it even if none of its
+ * adfixes do.
+ */
+export type Reduplication = Partial<Record<ReduplicatedCategory, ReduplicationType | 'none'>>
+
+type ReduplicatedCategory = 'plural' | 'aspect' | 'intensive' | 'derivation'
+
+// the whole stem, its first consonant and vowel, or its last syllable
+type ReduplicationType = 'full' | 'initialCV' | 'finalSyllable'
+
+const reduplicationType = pickMeToo<ReduplicationType>([
+  ['full', 3],
+  ['initialCV', 3],
+  ['finalSyllable', 1],
+])
+
+// how likely a language is to mark each category by reduplication
+const reduplicationProbabilities: Record<ReduplicatedCategory, number> = {
+  plural: 0.15,
+  aspect: 0.1,
+  intensive: 0.15,
+  derivation: 0.1,
+}
+
+// how often a new stem is derived by reduplication, if any are
+const derivedByReduplication = 0.1
+
+// the part of speech, category, and value marked by each inflectional reduplication
+const reduplicatedValues: Record<
+  Exclude<ReduplicatedCategory, 'derivation'>,
+  [PartOfSpeech, VerbalCategory | NominalCategory, string]
+> = {
+  plural: ['noun', 'number', 'plural'],
+  aspect: ['verb', 'aspect', 'imperfective'],
+  intensive: ['verb', 'intensity', 'intensive'],
+}
+
+const reduplicatedCategories = Object.keys(reduplicatedValues) as (keyof typeof reduplicatedValues)[]
+
+// gives the part of a stem that is copied and whether the copy goes before it
+type Reduplicant = (stem: string) => [string, boolean]
+
 // where do inflectional suffixes go?
-type AdfixStyle = 'prefix' | 'suffix' | 'both'
+// an infix or circumfix marks the slot nearest the stem; any other slots are suffixes
+type AdfixStyle = 'prefix' | 'suffix' | 'both' | 'infix' | 'circumfix'
 
 const adfixStyle = pickMeToo<AdfixStyle>([
-  ['prefix', 3],
-  ['suffix', 10],
-  ['both', 1],
+  ['prefix', 30],
+  ['suffix', 100],
+  ['both', 10],
+  ['infix', 2],
+  ['circumfix', 2],
+])
+
+type InfixPosition = 'afterOnset' | 'afterSyllable'
+
+const nounClassCount = pickMeToo<number>([
+  [2, 10],
+  [3, 5],
+  [4, 3],
+  [5, 1],
+  [6, 1],
+  [8, 1],
+])
+
+const infixPosition = pickMeToo<InfixPosition>([
+  ['afterOnset', 2],
+  ['afterSyllable', 1],
 ])
 
 type StemComplexity = 'simple' | 'moderate' | 'complex'
@@ -31,7 +280,7 @@ const stemComplexity = pickMeToo<StemComplexity>([
 /**
  * A thing for building words.
  * 
- * A vast amount of morphology is ignored by this. There is no reduplication, for example.
+ * A vast amount of morphology is ignored by this. There is no suppletion, for example.
  */
 export class MorphologyEngine {
   private morphology: Morphology
@@ -40,7 +289,13 @@ export class MorphologyEngine {
   private stem!: () => string
   private phonology: Phonology
   private closedClassStems: Set<string>
+  // the head of each compound stem made
+  private compoundHeads: Map<string, string>
   private adfixMaker!: () => string
+  private join: Joiner
+  private inflect: Joiner
+  private slots: Record<PartOfSpeech, Slot[]>
+  private inflectors: Record<PartOfSpeech, Inflector>
   /**
    * Makes a small adverbish word. This will be from a closed class.
    */
@@ -48,12 +303,17 @@ export class MorphologyEngine {
   /**
    * Makes a word with noun morphology. There is a closed class of common nouns
    * and an open class of less common nouns.
+   *
+   * A stem that is supplied, such as a topic, is treated as a loanword unless `loan` is false: an
+   * infix goes before it rather than inside it, as unassimilated loans in Tagalog take prefixes
+   * rather than infixes.
    */
-  noun!: (stem?: string) => string
+  noun!: (stem?: string, loan?: boolean) => string
   /**
-   * Picks a form from the closed class of pronouns.
+   * Picks a form from the closed class of pronouns, or gives the personal pronoun of a person
+   * and number. A language with few pronouns uses some for more than one person and number.
    */
-  pronoun!: () => string
+  pronoun!: (personNumber?: PersonNumber) => string
   /**
    * Generates an adverbish thing.
    */
@@ -63,6 +323,24 @@ export class MorphologyEngine {
    * and an open class of less common verbs.
    */
   verb!: (stem?: string) => string
+  /**
+   * Makes a noun as `noun` does, with its morphemes and their glosses. Any features given, such
+   * as `{ number: 'plural' }`, are those of the noun; its other categories take random values.
+   */
+  glossedNoun!: (stem?: string, loan?: boolean, features?: Features) => GlossedWord
+  /**
+   * Makes a pronoun as `pronoun` does, with its morphemes and their glosses.
+   */
+  glossedPronoun!: (personNumber?: PersonNumber) => GlossedWord
+  /**
+   * Makes an adverb as `adverb` does, with its morphemes and their glosses.
+   */
+  glossedAdverb!: () => GlossedWord
+  /**
+   * Makes a verb as `verb` does, with its morphemes and their glosses. The stem is glossed 'verb'
+   * unless another gloss is given, such as 'AUX' for an auxiliary.
+   */
+  glossedVerb!: (stem?: string, gloss?: string) => GlossedWord
   /**
    * Generates a noun stem. This may include derivational morphology but will not include
    * inflectional morphology.
@@ -85,6 +363,10 @@ export class MorphologyEngine {
     this.phonology = p.config()
     this.rng = rng
     this.closedClassStems = new Set()
+    this.compoundHeads = new Map()
+    this.slots = { noun: [], verb: [] }
+    const uninflected = (stem: string, gloss: string) => this.glossedWord(stem, gloss)
+    this.inflectors = { noun: uninflected, verb: uninflected }
     const h = new Hmm(rng)
     m.analytic ??= h.maybe(0.4)
     if (m.analytic) {
@@ -95,7 +377,46 @@ export class MorphologyEngine {
       m.nominalInflections ??= !m.verbalInflections || h.maybe(0.3)
     }
     m.derivationalAdfixes = !m.analytic || h.maybe(0.5)
+    const tones = this.phonology.tone?.inventory ?? []
+    if (tones.length && m.affixTone === undefined) {
+      // grammatical tone: all adfixes bear the same tone
+      m.affixTone = h.maybe(0.4)
+        ? pickMe(
+            tones.map((t) => [t, h.n()] as [Tone, number]),
+            this.rng,
+          )()
+        : 'lexical'
+    }
+    m.morphophonology ??= {}
+    this.join = pickMorphophonology(m.morphophonology, p, this.rng)
+    m.stressShift ??= h.maybe(0.7)
+    m.reduplication ??= {}
+    for (const category of Object.keys(reduplicationProbabilities) as ReduplicatedCategory[]) {
+      m.reduplication[category] ??= h.maybe(reduplicationProbabilities[category])
+        ? reduplicationType(this.rng)()
+        : 'none'
+    }
+    const c = (m.compounding ??= {})
+    c.probability ??= h.maybe(0.4) ? h.fromRange(0.1, 0.4) : 0
+    if (c.probability > 0) {
+      c.head ??= h.maybe(0.7) ? 'right' : 'left'
+      if (c.linker === undefined) {
+        // a single consonant or a syllable
+        const consonants = p.consonants()
+        if (!h.maybe(0.3)) c.linker = ''
+        else if (h.maybe()) c.linker = consonants[Math.floor(h.n() * consonants.length) % consonants.length]
+        else c.linker = this.simpleSyllable(this.affixTone())
+      }
+      c.maxStems ??= h.maybe(0.3) ? 3 : 2
+      c.reuse ??= h.fromRange(0.3, 0.8)
+    }
+    this.inflect = m.stressShift
+      ? (prefixes, stem, suffixes) => p.accent(this.join(prefixes, stem, suffixes))
+      : (prefixes, stem, suffixes) => this.join(prefixes, p.accent(stem), suffixes)
     this.initializeAdfixMaker()
+    this.initializeNounClasses(h)
+    this.initializeCases(h)
+    this.initializePersonAgreement(h)
     this.initializeStemmer()
     this.initializeVerbs(h)
     this.initializeNominals(h)
@@ -114,7 +435,9 @@ export class MorphologyEngine {
     }
     const frequentFrequencies: [string, number][] = frequentAdverbs.map((s) => [s, h.n()])
     const frequentAdverbPicker = pickMe(frequentFrequencies, this.rng)
-    this.adverb = () => (h.maybe(frequentAdverbProbability) ? frequentAdverbPicker() : this.stem())
+    this.glossedAdverb = () =>
+      this.glossedWord(h.maybe(frequentAdverbProbability) ? frequentAdverbPicker() : this.stem(), 'adverb')
+    this.adverb = () => this.glossedAdverb().form
   }
 
   // returns whether the item does not yet belong to the closed class
@@ -151,131 +474,211 @@ export class MorphologyEngine {
     }
     const ccFrequencies = cc.map((s) => [s, h.n()] as [string, number])
     const inflector = this.makeInflector(h, false)
+    this.inflectors.noun = inflector
     const pronounPicker = pickMe(ccFrequencies, this.rng)
-    this.pronoun = () => inflector(pronounPicker())
-    const stem = this.makeInflectionalStem(h)
+    // a personal pronoun is inflected for its own number
+    this.glossedPronoun = (personNumber?: PersonNumber) =>
+      personNumber
+        ? inflector(cc[personNumbers.indexOf(personNumber) % cc.length], abbreviate(personNumber), {
+            number: personNumber.endsWith('pl') ? 'plural' : 'singular',
+          })
+        : inflector(pronounPicker(), 'PRO')
+    this.pronoun = (personNumber?: PersonNumber) => this.glossedPronoun(personNumber).form
+    const [simpleStem, frequentStem] = this.makeInflectionalStem(h)
+    const stem = this.compounder(simpleStem, frequentStem, h)
     this.nounStem = stem
-    this.noun = (s?: string) => inflector(s ?? stem())
+    this.glossedNoun = (s?: string, loan = s !== undefined, features?: Features) =>
+      inflector(s ?? stem(), 'noun', features, loan)
+    this.noun = (s?: string, loan?: boolean) => this.glossedNoun(s, loan).form
   }
 
-  private makeInflector(h: Hmm, isVerb: boolean): (stem: string) => string {
-    if (this.morphology.analytic) return (stem: string) => stem
+  private makeInflector(h: Hmm, isVerb: boolean): Inflector {
+    const slots = this.makeSlots(h, isVerb)
+    this.slots[isVerb ? 'verb' : 'noun'] = slots
+    if (!slots.length) return (stem: string, gloss: string) => this.glossedWord(stem, gloss)
+    const infix = this.morphology.infixPosition && infixer(this.morphology.infixPosition, this.phonologyEngine)
+    return (stem: string, gloss: string, features?: Features, loan?: boolean) => {
+      const prefixes: string[] = [],
+        suffixes: string[] = []
+      // the morphemes before the stem, the stem and any infix, and those after
+      const before: Morpheme[] = [],
+        inside: Morpheme[] = [{ form: stem, gloss, type: 'stem' }],
+        after: Morpheme[] = []
+      const picked = slots.map(({ category, values, adfixes, pick }) => {
+        const value = features?.[category] ?? pick()
+        if (!adfixes[value]) throw new Error(`${category} has no value ${value}`)
+        return value
+      })
+      // reduplicants copy the bare stem and go next to it, so an infix must skip those before it
+      let base = stem,
+        offset = 0
+      slots.forEach(({ reduplication }, i) => {
+        if (reduplication?.value !== picked[i]) return
+        const [reduplicant, initial] = reduplication.copy(stem)
+        if (!reduplicant) return
+        const morpheme: Morpheme = { form: reduplicant, gloss: abbreviate(picked[i]), type: 'reduplicant' }
+        if (initial) {
+          base = reduplicant + base
+          offset += reduplicant.length
+          inside.unshift(morpheme)
+        } else {
+          base += reduplicant
+          inside.push(morpheme)
+        }
+      })
+      slots.forEach(({ position, adfixes }, i) => {
+        const value = picked[i]
+        const [prefix, suffix] = adfixes[value].map((a) => this.agree(a, stem))
+        const abbreviation = abbreviate(value)
+        if (prefix && position !== 'infix') before.push({ form: prefix, gloss: abbreviation, type: 'prefix' })
+        if (suffix) after.push({ form: suffix, gloss: abbreviation, type: 'suffix' })
+        switch (position) {
+          case 'prefix':
+            prefixes.push(prefix)
+            break
+          case 'suffix':
+            suffixes.push(suffix)
+            break
+          case 'circumfix':
+            prefixes.push(prefix)
+            suffixes.push(suffix)
+            break
+          case 'infix':
+            if (loan || !infix) {
+              prefixes.push(prefix)
+              if (prefix) before.push({ form: prefix, gloss: abbreviation, type: 'prefix' })
+            } else {
+              const at = infix(stem)
+              base = insert(base, prefix, offset + at)
+              if (prefix) inside.push({ form: prefix, gloss: abbreviation, type: 'infix', position: at })
+            }
+            break
+          default:
+            assertNever(position)
+        }
+      })
+      return { form: this.inflect(prefixes, base, suffixes), morphemes: before.concat(inside, after) }
+    }
+  }
+
+  // makes the inflectional slots of nouns or verbs, from the outermost prefix to the outermost suffix
+  private makeSlots(h: Hmm, isVerb: boolean): Slot[] {
+    const m = this.morphology
+    let categories: (VerbalCategory | NominalCategory)[]
     if (isVerb) {
-      // potentially more complicated inflections
-      let slotCount = pickMe(
-        [
-          [1, 5],
-          [2, 3],
-          [3, 2],
-          [4, 1],
-        ],
-        this.rng,
-      )()
-      if (slotCount === 1 && this.morphology.adfixStyle === 'both') slotCount = 2
-      const slots: (() => string)[] = []
-      for (let i = 0; i < slotCount; i++) {
-        slots.push(this.makeParticles(h.fromRange(2, 20), true))
-      }
-      let stemPosition = 0
-      switch (this.morphology.adfixStyle!) {
-        case 'prefix':
-          stemPosition = slots.length
-          break
-        case 'suffix':
-          stemPosition = 0
-          break
-        case 'both':
-          stemPosition = Math.round(h.fromRange(1, slotCount - 1))
-          break
-        default:
-          assertNever(this.morphology.adfixStyle! as never)
-      }
-      const lim = slots.length + 1
-      return (stem: string) => {
-        let s = ''
-        for (let i = 0, j = 0; i < lim; i++) {
-          s += i === stemPosition ? stem : slots[j++]()
+      if (!m.verbalCategories) {
+        m.verbalCategories = []
+        if (!m.analytic && m.verbalInflections) {
+          let slotCount = pickMe(
+            [
+              [1, 5],
+              [2, 3],
+              [3, 2],
+              [4, 1],
+            ],
+            this.rng,
+          )()
+          if (slotCount === 1 && m.adfixStyle === 'both') slotCount = 2
+          const picked = shuffle(verbalCategoryOrder.slice(), this.rng).slice(0, slotCount)
+          m.verbalCategories = verbalCategoryOrder.filter((c) => picked.includes(c))
         }
-        return s
       }
+      categories = m.verbalCategories
     } else {
-      // simpler inflections -- just one or two slots
-      const slotCount = pickMe(
-        [
-          [1, 5],
-          [2, 3],
-        ],
-        this.rng,
-      )()
-      let slots: (() => string)[] = []
-      for (let i = 0; i < slotCount; i++) {
-        const formCount =
-          slots.length == 0
-            ? pickMe(
-                [
-                  [4, 12],
-                  [5, 11],
-                  [6, 10],
-                  [7, 9],
-                  [8, 8],
-                  [9, 7],
-                  [10, 6],
-                  [11, 4],
-                  [12, 2],
-                  [13, 1],
-                  [14, 1],
-                ],
-                this.rng,
-              )()
-            : pickMe(
-                // fewer this time
-                [
-                  [1, 5],
-                  [2, 4],
-                  [3, 2],
-                  [4, 1],
-                ],
-                this.rng,
-              )()
-        slots.push(this.makeParticles(formCount, true))
-      }
-      // maybe make the shorter slot first
-      if (slots.length === 2 && h.maybe(0.5)) {
-        const [s1, s2] = slots
-        slots = [s2, s1]
-      }
-      switch (this.morphology.adfixStyle!) {
-        case 'prefix': {
-          if (slots.length === 2) {
-            const [s1, s2] = slots
-            return (stem: string) => s1() + s2() + stem
-          }
-          const [s] = slots
-          return (stem: string) => s() + stem
+      if (!m.nominalCategories) {
+        m.nominalCategories = []
+        if (!m.analytic && m.nominalInflections) {
+          if (h.maybe(3 / 8)) m.nominalCategories = ['number', 'definiteness']
+          else m.nominalCategories = [h.maybe(0.7) ? 'number' : 'definiteness']
         }
-        case 'suffix': {
-          if (slots.length === 2) {
-            const [s1, s2] = slots
-            return (stem: string) => stem + s1() + s2()
-          }
-          const [s] = slots
-          return (stem: string) => stem + s()
-        }
-        case 'both': {
-          if (slots.length === 2) {
-            const [s1, s2] = slots
-            return (stem: string) => s1() + stem + s2()
-          }
-          const [s] = slots
-          return (stem: string) => stem + s()
-        }
-        default:
-          assertNever(this.morphology.adfixStyle! as never)
       }
+      categories = m.nominalCategories
+    }
+    // the number of slots before the stem
+    let prefixCount = 0
+    switch (m.adfixStyle!) {
+      case 'prefix':
+        prefixCount = categories.length
+        break
+      case 'suffix':
+      case 'infix':
+      case 'circumfix':
+        break
+      case 'both':
+        if (categories.length > 1) prefixCount = isVerb ? Math.round(h.fromRange(1, categories.length - 1)) : 1
+        break
+      default:
+        assertNever(m.adfixStyle! as never)
+    }
+    const slots: Slot[] = []
+    categories.forEach((category, i) => {
+      let position: Slot['position'] = 'suffix'
+      if (i === 0 && (m.adfixStyle === 'infix' || m.adfixStyle === 'circumfix')) position = m.adfixStyle
+      else if (i >= categories.length - prefixCount) position = 'prefix'
+      slots.push(this.makeSlot(category, position, h, this.reduplication(category)))
+    })
+    // prefixes come outermost first, then anything inside the stem or around it, then the suffixes
+    const order = (slot: Slot) => (slot.position === 'prefix' ? 0 : slot.position === 'suffix' ? 2 : 1)
+    const prefixes = slots.filter((s) => s.position === 'prefix').reverse()
+    const ordered = prefixes.concat(slots.filter((s) => order(s) > 0).sort((a, b) => order(a) - order(b)))
+    // a category marked only by reduplication has a slot of its own without adfixes
+    const reduplicated: Slot[] = []
+    for (const [partOfSpeech, category, value] of reduplicatedCategories.map((r) => reduplicatedValues[r])) {
+      const reduplication = this.reduplication(category)
+      if (!reduplication || partOfSpeech !== (isVerb ? 'verb' : 'noun') || categories.includes(category)) continue
+      const values = [inflectionalValues[category][0], value]
+      const frequencies = values.map((v, i) => [v, i ? this.rng() : this.rng() * 2] as [string, number])
+      reduplicated.push({
+        category,
+        position: 'suffix',
+        values,
+        adfixes: { [values[0]]: ['', ''], [value]: ['', ''] },
+        pick: pickMe(frequencies, this.rng),
+        reduplication,
+      })
+    }
+    return reduplicated.concat(ordered)
+  }
+
+  private makeSlot(
+    category: VerbalCategory | NominalCategory,
+    position: Slot['position'],
+    h: Hmm,
+    reduplication?: Slot['reduplication'],
+  ): Slot {
+    const all = inflectionalValues[category]
+    const values = all.slice(0, Math.round(h.fromRange(2, all.length)))
+    const tone = this.affixTone()
+    const adfixes: Record<string, [string, string]> = {}
+    const seen: Set<string> = new Set()
+    values.forEach((value, i) => {
+      // the first value is unmarked, and a reduplicated one needs no adfix
+      let adfix: [string, string] = ['', '']
+      for (let safety = 0; i > 0 && value !== reduplication?.value && safety < 1000; safety++) {
+        const a = this.simpleSyllable(tone)
+        if (position === 'circumfix') adfix = [a, this.simpleSyllable(tone)]
+        else adfix = position === 'suffix' ? ['', a] : [a, '']
+        if (!seen.has(adfix.join(' '))) break
+      }
+      seen.add(adfix.join(' '))
+      adfixes[value] = adfix
+    })
+    // the unmarked value is more common
+    const frequencies = values.map((v, i) => [v, i ? this.rng() : this.rng() * 2] as [string, number])
+    return { category, position, values, adfixes, pick: pickMe(frequencies, this.rng), reduplication }
+  }
+
+  // the value of a category marked by reduplication and how it is copied, if the language does so
+  private reduplication(category: VerbalCategory | NominalCategory): Slot['reduplication'] {
+    for (const r of reduplicatedCategories) {
+      const [, c, value] = reduplicatedValues[r]
+      const type = this.morphology.reduplication![r]!
+      if (c === category && type !== 'none') return { value, copy: reduplicant(type, this.phonologyEngine) }
     }
   }
 
-  private makeInflectionalStem(h: Hmm) {
+  // makes a stem picker and a picker of the frequent stems among its stems
+  private makeInflectionalStem(h: Hmm): [() => string, () => string] {
     const lim = h.fromRange(10, 100)
     const cc: string[] = []
     while (cc.length < lim) {
@@ -286,10 +689,20 @@ export class MorphologyEngine {
     }
     const ccFrequencies = cc.map((s) => [s, h.n()] as [string, number])
     const ccStemPicker = pickMe(ccFrequencies, this.rng)
-    let derivedStem = this.nonClosedClassStem.bind(this)
+    const reduplicated = this.reduplicator(h)
+    let derivedStem = () => reduplicated(this.nonClosedClassStem())
     if (this.morphology.derivationalAdfixes) {
-      const adfixMakers: (() => string)[] = []
-      for (let i = 0; i < 6; i++) adfixMakers.push(this.makeDerivationalAdfixes(h))
+      const style = this.morphology.adfixStyle
+      // a circumfixing language has derivational circumfixes in place of prefixes
+      const adfixMakers: (() => string)[] = [],
+        circumfixMakers: (() => [string, string])[] = []
+      for (let i = 0; i < 6; i++) {
+        if (i < 3 && style === 'circumfix') circumfixMakers.push(this.makeDerivationalCircumfixes(h))
+        else adfixMakers.push(this.makeDerivationalAdfixes(h))
+      }
+      const suffixOffset = adfixMakers.length - 6
+      // and an infixing language infixes in place of prefixes
+      const infix = style === 'infix' ? infixer(this.morphology.infixPosition!, this.phonologyEngine) : undefined
       const adfixCount = pickMe(
         [
           [0, 50],
@@ -302,32 +715,99 @@ export class MorphologyEngine {
       derivedStem = () => {
         const prefixCount = adfixCount(),
           suffixCount = adfixCount()
-        if (prefixCount === 0 && suffixCount === 0) return this.nonClosedClassStem()
-        let prefix = ''
+        if (prefixCount === 0 && suffixCount === 0) return reduplicated(this.nonClosedClassStem())
+        let stem = reduplicated(this.nonClosedClassStem())
+        const prefixes: string[] = [],
+          circumfixSuffixes: string[] = []
         if (prefixCount > 0) {
           const ar = shuffle([0, 1, 2], this.rng).slice(0, prefixCount)
           ar.sort()
           for (const i of ar) {
-            prefix += adfixMakers[i]()
+            if (circumfixMakers.length) {
+              const [prefix, suffix] = circumfixMakers[i]()
+              prefixes.push(this.agree(prefix, stem))
+              circumfixSuffixes.unshift(this.agree(suffix, stem))
+            } else {
+              prefixes.push(this.agree(adfixMakers[i](), stem))
+            }
           }
         }
-        let suffix = ''
+        const suffixes: string[] = []
         if (suffixCount > 0) {
           const ar = shuffle([3, 4, 5], this.rng).slice(0, suffixCount)
           ar.sort()
           for (const i of ar) {
-            suffix += adfixMakers[i]()
+            suffixes.push(this.agree(adfixMakers[i + suffixOffset](), stem))
           }
         }
-        return prefix + this.nonClosedClassStem() + suffix
+        if (infix) {
+          // the innermost goes in first
+          for (let i = prefixes.length - 1; i >= 0; i--) stem = insert(stem, prefixes[i], infix(stem))
+          return this.join([], stem, suffixes)
+        }
+        return this.join(prefixes, stem, suffixes.concat(circumfixSuffixes))
       }
     }
     const threshold = h.fromRange(0.2, 0.35)
-    return () => (h.maybe(threshold) ? ccStemPicker() : derivedStem())
+    return [() => (h.maybe(threshold) ? ccStemPicker() : derivedStem()), ccStemPicker]
+  }
+
+  private initializeNounClasses(h: Hmm) {
+    const m = this.morphology
+    const nc = (m.nounClasses ??= {})
+    nc.count ??= m.analytic || !h.maybe(0.3) ? 0 : nounClassCount(this.rng)()
+    if (nc.count < 2) return
+    nc.assignment ??= h.maybe(0.6) ? 'phonological' : 'arbitrary'
+    nc.markerPosition ??= this.prefixing() ? 'prefix' : 'suffix'
+    nc.markers ??= this.makeMarkers(nc.count)
+  }
+
+  private initializeCases(h: Hmm) {
+    const m = this.morphology
+    m.alignment ??= m.analytic ? 'neutral' : alignmentPicker(this.rng)()
+    m.cases ??= {}
+    for (const c of alignmentCases[m.alignment]) {
+      if (m.cases[c] !== undefined) continue
+      // the case of the intransitive subject usually goes unmarked
+      m.cases[c] = (c === 'nominative' || c === 'absolutive') && h.maybe(0.8) ? '' : this.makeMarkers(1)[0]
+    }
+  }
+
+  private initializePersonAgreement(h: Hmm) {
+    const m = this.morphology
+    if (m.personMarkers) return
+    m.personMarkers = {}
+    if (!m.verbalInflections) return
+    if (h.maybe(0.5)) {
+      // the third person singular is often unmarked
+      const markers = this.makeMarkers(personNumbers.length)
+      personNumbers.forEach((pn, i) => (m.personMarkers![pn] = markers[i]))
+      if (h.maybe(0.5)) m.personMarkers['3sg'] = ''
+    } else if (h.maybe(0.5)) {
+      // only the third person singular is marked, as in English
+      for (const pn of personNumbers) m.personMarkers[pn] = ''
+      m.personMarkers['3sg'] = this.makeMarkers(1)[0]
+    }
+  }
+
+  // whether the language's grammatical markers are prefixes rather than suffixes
+  private prefixing(): boolean {
+    return this.morphology.adfixStyle === 'prefix' || this.morphology.adfixStyle === 'both'
+  }
+
+  // makes distinct single-syllable markers for grammatical categories
+  private makeMarkers(n: number): string[] {
+    const markers: string[] = []
+    for (let safety = 0; markers.length < n && safety < 1000; safety++) {
+      const marker = this.simpleSyllable(this.affixTone())
+      if (this.addClosedClassItem(marker)) markers.push(marker)
+    }
+    return markers
   }
 
   private initializeAdfixMaker() {
     this.morphology.adfixStyle ??= adfixStyle(this.rng)()
+    if (this.morphology.adfixStyle === 'infix') this.morphology.infixPosition ??= infixPosition(this.rng)()
     const syllableComplexity = this.phonology.numberPossibleSyllables ?? 0
     // the simpler the syllables the more syllables in the adfixes
     const frequencies: [number, number][] =
@@ -354,7 +834,7 @@ export class MorphologyEngine {
       // maximum of 1000 tries to find a novel adfix
       for (let attempt = 0; attempt < 1000; attempt++) {
         s = ''
-        for (let i = 0, lim = lengthPicker(); i < lim; i++) s += this.phonologyEngine.syllable()
+        for (let i = 0, lim = lengthPicker(); i < lim; i++) s += this.phonologyEngine.syllable(this.affixTone())
         if (this.addClosedClassItem(s)) return s
       }
       return s
@@ -411,27 +891,296 @@ export class MorphologyEngine {
       for (let i = 0, lim = lengthPicker(); i < lim; i++) {
         s += this.phonologyEngine.syllable()
       }
-      return s
+      return this.phonologyEngine.harmonize(s)
+    }
+  }
+  /**
+   * Inflects a stem for some features. A category that is not given takes its unmarked value.
+   *
+   * @param stem - a noun or verb stem
+   * @param partOfSpeech - whether the stem is inflected as a noun or a verb
+   * @param [features] - the features, such as `{ tense: 'past', person: '1sg' }`
+   * @returns the inflected word
+   * @throws if the language does not have a category or value given
+   */
+  form(stem: string, partOfSpeech: PartOfSpeech, features: Features = {}): string {
+    const agreement = partOfSpeech === 'verb' ? 'person' : 'case'
+    for (const c of Object.keys(features)) {
+      if (c !== agreement && !this.slots[partOfSpeech].some(({ category }) => category === c)) {
+        throw new Error(`no ${partOfSpeech} category ${c}`)
+      }
+    }
+    const unmarked: Features = {}
+    for (const { category, values } of this.slots[partOfSpeech]) unmarked[category] = values[0]
+    const word = this.inflectors[partOfSpeech](stem, partOfSpeech, { ...unmarked, ...features }, false)
+    if (partOfSpeech === 'verb') {
+      if (features.person === undefined) return word.form
+      if (!personNumbers.includes(features.person as PersonNumber)) throw new Error(`no person ${features.person}`)
+      return this.glossedPersonAgreement(word, features.person as PersonNumber).form
     }
+    if (features.case === undefined) return word.form
+    if (this.morphology.cases![features.case as Case] === undefined) throw new Error(`no case ${features.case}`)
+    return this.glossedCaseMarking(word, features.case as Case).form
+  }
+  /**
+   * Gives every inflected form of a stem, keyed by the values of its features joined by periods,
+   * such as 'perfective.past.1sg', with the category nearest the stem first. The single form of a
+   * word that is not inflected has the key ''.
+   *
+   * @param stem - a noun or verb stem
+   * @param partOfSpeech - whether the stem is inflected as a noun or a verb
+   * @returns the paradigm
+   */
+  paradigm(stem: string, partOfSpeech: PartOfSpeech): Record<string, string> {
+    const m = this.morphology
+    const slots = this.slots[partOfSpeech]
+    const inflected: (keyof Features)[] = partOfSpeech === 'verb' ? m.verbalCategories! : m.nominalCategories!
+    // any category marked only by reduplication is nearest the stem
+    const categories: (keyof Features)[] = slots.map(({ category }) => category).filter((c) => !inflected.includes(c))
+    categories.push(...inflected)
+    const values = categories.map((c) => slots.find(({ category }) => category === c)!.values)
+    if (partOfSpeech === 'noun' && Object.keys(m.cases!).length) {
+      categories.push('case')
+      values.push(Object.keys(m.cases!))
+    }
+    if (partOfSpeech === 'verb' && Object.keys(m.personMarkers!).length) {
+      categories.push('person')
+      values.push(personNumbers)
+    }
+    if (!categories.length) return { '': this.form(stem, partOfSpeech) }
+    const table: Record<string, string> = {}
+    for (const bundle of combinations(values)) {
+      const features: Features = {}
+      categories.forEach((c, i) => (features[c] = bundle[i]))
+      table[bundle.join('.')] = this.form(stem, partOfSpeech, features)
+    }
+    return table
+  }
+  /**
+   * Gives the class of a noun stem, which is always the same for the same stem. A compound
+   * made by this engine is of the class of its head.
+   *
+   * @param stem - a noun stem
+   * @returns the class, counting from 0, or undefined if the language has no noun classes
+   */
+  nounClass(stem: string): number | undefined {
+    const { count, assignment } = this.morphology.nounClasses!
+    if (!count || count < 2) return undefined
+    stem = this.compoundHeads.get(stem) ?? stem
+    if (assignment === 'phonological') {
+      // the vowels are dealt out among the classes in alphabetical order
+      const vowels = (this.phonology.vowels?.vocalicSyllableNuclei ?? []).slice().sort()
+      const nuclei = this.phonologyEngine.segments(stem).filter((s) => this.phonologyEngine.isVowel(s))
+      const letters = Array.from(nuclei[nuclei.length - 1] ?? '').filter((c) => !isCombiningMark(c) && c !== 'ː')
+      const i = vowels.indexOf(letters[letters.length - 1])
+      if (i >= 0) return i % count
+    }
+    return hash(stem) % count
+  }
+  /**
+   * Marks a word as agreeing with a noun of some class. In a language without noun classes
+   * the word is unchanged. Any stress it is written with stays where it is.
+   *
+   * @param word - an inflected word
+   * @param [nounClass] - the class of the noun it agrees with
+   * @returns the word with the class marker
+   */
+  classAgreement(word: string, nounClass?: number): string {
+    return this.glossedClassAgreement(unglossed(word), nounClass).form
+  }
+  /**
+   * Marks a word as agreeing with a noun of some class, as `classAgreement` does, adding the
+   * marker to its morphemes.
+   *
+   * @param word - an inflected word
+   * @param [nounClass] - the class of the noun it agrees with
+   * @returns the word with the class marker
+   */
+  glossedClassAgreement(word: GlossedWord, nounClass?: number): GlossedWord {
+    const { markers, markerPosition } = this.morphology.nounClasses!
+    if (nounClass === undefined || !markers?.[nounClass]) return word
+    return this.mark(word, markers[nounClass], `CL${nounClass + 1}`, markerPosition === 'prefix')
+  }
+  /**
+   * Whether verbs tell apart at least five of the six persons and numbers of their subjects.
+   *
+   * @returns whether agreement is rich
+   */
+  richAgreement(): boolean {
+    const markers = this.morphology.personMarkers!
+    return new Set(personNumbers.map((pn) => markers[pn] ?? '')).size >= 5
+  }
+  /**
+   * Marks a verb as agreeing with a subject of some person and number. If the language does not
+   * mark it the verb is unchanged. Any stress it is written with stays where it is.
+   *
+   * @param word - an inflected verb
+   * @param [personNumber] - the person and number of the subject
+   * @returns the verb with the agreement marker
+   */
+  personAgreement(word: string, personNumber?: PersonNumber): string {
+    return this.glossedPersonAgreement(unglossed(word), personNumber).form
+  }
+  /**
+   * Marks a verb as agreeing with a subject of some person and number, as `personAgreement`
+   * does, adding the marker to its morphemes.
+   *
+   * @param word - an inflected verb
+   * @param [personNumber] - the person and number of the subject
+   * @returns the verb with the agreement marker
+   */
+  glossedPersonAgreement(word: GlossedWord, personNumber?: PersonNumber): GlossedWord {
+    const marker = personNumber && this.morphology.personMarkers![personNumber]
+    if (!marker) return word
+    return this.mark(word, marker, abbreviate(personNumber!), this.prefixing())
+  }
+  /**
+   * Marks a noun or pronoun for case. A case that the language does not mark leaves the word unchanged.
+   * Any stress it is written with stays where it is.
+   *
+   * @param word - an inflected noun or pronoun
+   * @param [c] - the case
+   * @returns the word with the case marker
+   */
+  caseMarking(word: string, c?: Case): string {
+    return this.glossedCaseMarking(unglossed(word), c).form
+  }
+  /**
+   * Marks a noun or pronoun for case, as `caseMarking` does, adding the marker to its morphemes.
+   *
+   * @param word - an inflected noun or pronoun
+   * @param [c] - the case
+   * @returns the word with the case marker
+   */
+  glossedCaseMarking(word: GlossedWord, c?: Case): GlossedWord {
+    const marker = c && this.morphology.cases![c]
+    if (!marker) return word
+    return this.mark(word, marker, abbreviate(c!), this.prefixing())
+  }
+  /**
+   * Makes an uninflected word out of a stem, marking its stress if the language writes stress.
+   *
+   * @param stem - a stem
+   * @returns the word
+   */
+  word(stem: string): string {
+    return this.phonologyEngine.accent(stem)
+  }
+  /**
+   * Makes an uninflected word out of a stem, as `word` does, with the stem as its only morpheme.
+   *
+   * @param stem - a stem
+   * @param gloss - the gloss of the stem
+   * @returns the word
+   */
+  glossedWord(stem: string, gloss: string): GlossedWord {
+    return { form: this.word(stem), morphemes: [{ form: stem, gloss, type: 'stem' }] }
+  }
+  // adds an agreement or case marker outside the other morphemes of a word; if stress shifts, the
+  // word is built again from its morphemes so the marker counts in placing it, but a word given
+  // only as text has unknown morphemes and keeps its stress
+  private mark(word: GlossedWord, marker: string, gloss: string, prefix: boolean): GlossedWord {
+    const adfix = this.agree(marker, word.form)
+    const morpheme: Morpheme = { form: adfix, gloss, type: prefix ? 'prefix' : 'suffix' }
+    const morphemes = prefix ? [morpheme].concat(word.morphemes) : word.morphemes.concat([morpheme])
+    if (this.morphology.stressShift && word.morphemes.every((m) => m.gloss)) {
+      return { form: this.rebuild(morphemes), morphemes }
+    }
+    if (prefix) return { form: this.join([adfix], word.form, []), morphemes }
+    return { form: this.join([], word.form, [adfix]), morphemes }
+  }
+  // joins and stresses the morphemes of a word as the inflectors do
+  private rebuild(morphemes: Morpheme[]): string {
+    const prefixes: string[] = [],
+      suffixes: string[] = []
+    // the stem with its reduplicants and infix, and where the stem begins in it
+    let base = '',
+      offset = 0
+    for (const { form, type, position } of morphemes) {
+      switch (type) {
+        case 'prefix':
+          prefixes.push(form)
+          break
+        case 'suffix':
+          suffixes.push(form)
+          break
+        case 'stem':
+          offset = base.length
+          base += form
+          break
+        case 'reduplicant':
+          base += form
+          break
+        case 'infix':
+          base = insert(base, form, offset + position!)
+          break
+        default:
+          assertNever(type)
+      }
+    }
+    return this.inflect(prefixes, base, suffixes)
+  }
+  // makes an adfix agree with the stem it attaches to
+  private agree(adfix: string, stem: string): string {
+    return this.phonologyEngine.harmonize(adfix, stem)
   }
   private initializeVerbs(h: Hmm) {
-    const stem = this.makeInflectionalStem(h)
+    const [stem] = this.makeInflectionalStem(h)
     this.verbStem = stem
     const inflector = this.makeInflector(h, true)
-    this.verb = (s?: string) => inflector(s ?? stem())
+    this.inflectors.verb = inflector
+    this.glossedVerb = (s?: string, gloss = 'verb') => inflector(s ?? stem(), gloss)
+    this.verb = (s?: string) => this.glossedVerb(s).form
+  }
+  // makes some stems compounds of a new head and modifiers that are often frequent stems
+  private compounder(stem: () => string, frequentStem: () => string, h: Hmm): () => string {
+    const { probability, head, linker, maxStems, reuse } = this.morphology.compounding!
+    if (!probability) return stem
+    const count = pickMe(
+      Array.from({ length: maxStems! - 1 }, (_, i) => [i + 2, 1 / 2 ** i] as [number, number]),
+      this.rng,
+    )
+    return () => {
+      if (!h.maybe(probability)) return stem()
+      const headStem = stem()
+      // the modifiers and linkers from the head outward, joined to it as adfixes are
+      const adfixes: string[] = []
+      for (let i = 1, n = count(); i < n; i++) {
+        adfixes.push(linker!, h.maybe(reuse) ? frequentStem() : stem())
+      }
+      const compound = head === 'right' ? this.join(adfixes.reverse(), headStem, []) : this.join([], headStem, adfixes)
+      this.compoundHeads.set(compound, headStem)
+      return compound
+    }
+  }
+  // copies all or part of some new stems, if the language derives stems so
+  private reduplicator(h: Hmm): (stem: string) => string {
+    const type = this.morphology.reduplication!.derivation!
+    if (type === 'none') return (stem: string) => stem
+    const copy = reduplicant(type, this.phonologyEngine)
+    return (stem: string) => {
+      if (!h.maybe(derivedByReduplication)) return stem
+      const [r, initial] = copy(stem)
+      return initial ? r + stem : stem + r
+    }
+  }
+  // the tone adfixes must bear, if any
+  private affixTone(): Tone | undefined {
+    const tone = this.morphology.affixTone
+    return tone === 'lexical' ? undefined : tone
   }
   // useful for making inflections and particles
-  private simpleSyllable(): string {
+  private simpleSyllable(tone?: Tone): string {
     if (this.phonology.closedSyllables || this.phonology.consonantClusters?.initial) {
       const ar: string[] = []
       // yeah, not so efficient, but we just use this during language initialization
       for (let i = 0; i < 4; i++) {
-        ar.push(this.phonologyEngine.syllable())
+        ar.push(this.phonologyEngine.syllable(tone))
       }
       ar.sort((a, b) => a.length - b.length)
       return ar[0]
     } else {
-      return this.phonologyEngine.syllable()
+      return this.phonologyEngine.syllable(tone)
     }
   }
 
@@ -463,15 +1212,28 @@ export class MorphologyEngine {
     )
   }
 
+  // derivational circumfixes, each a prefix and a suffix that occur together
+  private makeDerivationalCircumfixes(h: Hmm): () => [string, string] {
+    const circumfixes: [string, string][] = []
+    const frequencies: [number, number][] = []
+    for (let i = 0, lim = h.fromRange(10, 15); i < lim; i++) {
+      circumfixes.push([this.adfixMaker(), this.adfixMaker()])
+      frequencies.push([i, h.n()])
+    }
+    const picker = pickMe(frequencies, this.rng)
+    return () => circumfixes[picker()]
+  }
+
   /**
    * Creates a closed class of morphemes that will appear in a particular morphological or syntactic "slot".
    * This is a public method mostly because syntax engines need it.
    * 
    * @param n -- a number of "particles" to make
    * @param includeBlank -- whether the null particle should be among the particles
+   * @param [tone] -- in a tonal language, the tone the particles must bear
    * @returns a collection of morphemes
    */
-  makeParticles(n: number, includeBlank: boolean): () => string {
+  makeParticles(n: number, includeBlank: boolean, tone?: Tone): () => string {
     const seen: Set<string> = new Set()
     let found: string[] = []
     // NOTE: there is a possibility for an infinite loop here if we ask for too many variants!
@@ -481,7 +1243,7 @@ export class MorphologyEngine {
     // NOTE: to simplify things we aren't generating any multi-syllabic morphemes like Latin -ōrum
 
     while (found.length < n && safety < 1000) {
-      const s = this.simpleSyllable()
+      const s = this.simpleSyllable(tone)
       if (!seen.has(s)) {
         seen.add(s)
         found.push(s)
@@ -493,3 +1255,54 @@ export class MorphologyEngine {
     return pickMe(frequencies, this.rng)
   }
 }
+
+// a word whose morphemes are unknown
+function unglossed(form: string): GlossedWord {
+  return { form, morphemes: [{ form, gloss: '', type: 'stem' }] }
+}
+
+// copies all or part of a stem
+function reduplicant(type: ReduplicationType, p: Readonly<PhonologyEngine>): Reduplicant {
+  switch (type) {
+    case 'full':
+      return (stem: string) => [stem, true]
+    case 'initialCV':
+      return (stem: string) => {
+        const segments = p.segments(stem)
+        const v = segments.findIndex((s) => p.isVowel(s))
+        if (v < 0) return ['', true]
+        // a stem beginning with a vowel copies its first vowel and consonant instead
+        return [v > 0 ? segments[0] + segments[v] : segments.slice(0, 2).join(''), true]
+      }
+    case 'finalSyllable':
+      return (stem: string) => {
+        const syllables = p.syllabify(stem)
+        return [syllables[syllables.length - 1] ?? '', false]
+      }
+    default:
+      assertNever(type)
+  }
+}
+
+// finds where in a stem an infix goes
+function infixer(position: InfixPosition, p: Readonly<PhonologyEngine>): (stem: string) => number {
+  switch (position) {
+    case 'afterOnset':
+      return (stem: string) => {
+        const segments = p.segments(stem)
+        const v = segments.findIndex((s) => p.isVowel(s))
+        // a stem without an onset takes the infix as a prefix
+        if (v < 0) return 0
+        return segments.slice(0, v).join('').length
+      }
+    case 'afterSyllable':
+      return (stem: string) => (p.syllabify(stem)[0] ?? '').length
+    default:
+      assertNever(position)
+  }
+}
+
+// inserts an adfix into a stem
+function insert(stem: string, infix: string, position: number): string {
+  return stem.slice(0, position) + infix + stem.slice(position)
+}
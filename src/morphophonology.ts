@@ -0,0 +1,166 @@
+import { Rng } from 'pick-me-too'
+import { ConsonantFeatures, PhonologyEngine } from './phonology'
+import { Hmm } from './util'
+
+/**
+ * The sound changes that apply where morphemes meet. Stems are faithful: apart from nasal place
+ * assimilation, which always works backwards, where a rule could change either morpheme it changes the adfix.
+ */
+export type Morphophonology = {
+  /**
+   * Nasals take the place of articulation of a following obstruent, and obstruents take the
+   * voicing of a neighboring obstruent.
+   */
+  assimilation?: boolean
+  /**
+   * A vowel is inserted to break up consonant clusters longer than the syllable templates allow.
+   */
+  epenthesis?: boolean
+  /**
+   * Where two vowels meet, the adfix vowel is dropped.
+   */
+  elision?: boolean
+  /**
+   * Where two vowels meet and neither is dropped, a consonant is inserted between them.
+   */
+  hiatusResolution?: boolean
+  /**
+   * Where two identical consonants meet, only one is kept.
+   */
+  degemination?: boolean
+  /**
+   * The vowel inserted by epenthesis.
+   */
+  epentheticVowel?: string
+  /**
+   * The consonant inserted to resolve hiatus.
+   */
+  hiatusConsonant?: string
+}
+
+/**
+ * Joins a stem to its adfixes, the prefixes in order from the outermost in and the suffixes
+ * from the innermost out.
+ */
+export type Joiner = (prefixes: string[], stem: string, suffixes: string[]) => string
+
+// the consonants voicing assimilation can alternate between
+const alternatingVoicing = ['voiced', 'unvoiced']
+const obstruentManners = ['stops', 'fricatives', 'affricates']
+
+// fills in the configuration and returns the function that glues morphemes together
+export function pickMorphophonology(m: Morphophonology, p: Readonly<PhonologyEngine>, rng: Rng): Joiner {
+  const h = new Hmm(rng)
+  m.assimilation ??= h.maybe(0.6)
+  m.epenthesis ??= h.maybe(0.5)
+  m.elision ??= h.maybe(0.3)
+  m.hiatusResolution ??= h.maybe(0.4)
+  m.degemination ??= h.maybe(0.5)
+  const config = p.config()
+  const vowels = config.vowels?.vocalicSyllableNuclei ?? []
+  const consonants = p.consonants()
+  // the least marked vowel and glide available
+  if (m.epenthesis) m.epentheticVowel ??= ['i', 'e', 'a', 'u', 'o'].find((v) => vowels.includes(v)) ?? vowels[0]
+  if (m.hiatusResolution) m.hiatusConsonant ??= ['j', 'w', "'", 'h'].find((c) => consonants.includes(c))
+  // the longest consonant runs the syllable templates allow
+  let maxOnset = 0,
+    maxCoda = 0
+  for (const [t] of config.syllableTemplates ?? []) {
+    const [onset, coda] = t.split('V')
+    maxOnset = Math.max(maxOnset, onset.length)
+    maxCoda = Math.max(maxCoda, coda.length)
+  }
+  const isConsonant = (s: string) => !p.isVowel(s) && !/^[0-9ˈˌ]$/.test(s)
+  const isPhoneme = (s: string) => p.isVowel(s) || isConsonant(s)
+  // the consonant sharing all but one feature with the given consonant
+  const counterpart = (c: string, change: Partial<ConsonantFeatures>) => {
+    const f = p.features(c)
+    if (!f) return undefined
+    const target = { ...f, ...change }
+    return consonants.find((o) => {
+      const g = p.features(o)
+      return g && g.place === target.place && g.manner === target.manner && g.voicing === target.voicing
+    })
+  }
+  // a nasal takes the place of articulation of the obstruent that follows it
+  const placeAssimilation = (nasal: string, obstruent: string): string => {
+    const fn = p.features(nasal),
+      fo = p.features(obstruent)
+    if (fn?.manner !== 'nasals' || !fo || !obstruentManners.includes(fo.manner)) return nasal
+    return counterpart(nasal, { place: fo.place }) ?? nasal
+  }
+  // an obstruent takes the voicing of a neighboring obstruent
+  const voicingAssimilation = (a: string, b: string): string => {
+    const fa = p.features(a),
+      fb = p.features(b)
+    if (!fa || !fb || !obstruentManners.includes(fa.manner) || !obstruentManners.includes(fb.manner)) return a
+    if (!alternatingVoicing.includes(fa.voicing) || !alternatingVoicing.includes(fb.voicing)) return a
+    return counterpart(a, { voicing: fb.voicing }) ?? a
+  }
+  // removes a vowel and the tone numbers of its syllable, which follow it
+  const elide = (segments: string[], i: number) => {
+    segments.splice(i, 1)
+    for (let j = i; j < segments.length && !p.isVowel(segments[j]); ) {
+      if (/^[0-9]+$/.test(segments[j])) segments.splice(j, 1)
+      else j++
+    }
+  }
+  // joins two morphemes; atStart and atEnd indicate whether the juncture is at the word's edges
+  const juncture = (left: string, right: string, adfixOnRight: boolean, atStart: boolean, atEnd: boolean) => {
+    const l = p.segments(left),
+      r = p.segments(right)
+    let li = l.length - 1,
+      ri = 0
+    while (li >= 0 && !isPhoneme(l[li])) li--
+    while (ri < r.length && !isPhoneme(r[ri])) ri++
+    if (li < 0 || ri === r.length) return left + right
+    if (p.isVowel(l[li]) && p.isVowel(r[ri])) {
+      if (m.elision) {
+        if (adfixOnRight) elide(r, ri)
+        else elide(l, li)
+        return l.join('') + r.join('')
+      }
+      if (m.hiatusResolution && m.hiatusConsonant) return left + m.hiatusConsonant + right
+      return left + right
+    }
+    if (p.isVowel(l[li]) || p.isVowel(r[ri])) return left + right
+    if (m.degemination && l[li] === r[ri]) {
+      if (adfixOnRight) r.splice(ri, 1)
+      else l.splice(li, 1)
+      return l.join('') + r.join('')
+    }
+    let run = 0
+    for (let i = li; i >= 0 && !p.isVowel(l[i]); i--) if (isConsonant(l[i])) run++
+    for (let i = ri; i < r.length && !p.isVowel(r[i]); i++) if (isConsonant(r[i])) run++
+    const edgeStart = atStart && !l.some((s) => p.isVowel(s))
+    const edgeEnd = atEnd && !r.some((s) => p.isVowel(s))
+    let limit = maxOnset + maxCoda
+    if (edgeStart && edgeEnd) limit = Math.max(maxOnset, maxCoda)
+    else if (edgeStart) limit = maxOnset
+    else if (edgeEnd) limit = maxCoda
+    if (m.epenthesis && m.epentheticVowel && run > limit) {
+      // the inserted vowel agrees with the stem
+      return left + p.harmonize(m.epentheticVowel, adfixOnRight ? left : right) + right
+    }
+    if (m.assimilation) {
+      l[li] = placeAssimilation(l[li], r[ri])
+      if (adfixOnRight) {
+        r[ri] = voicingAssimilation(r[ri], l[li])
+      } else {
+        l[li] = voicingAssimilation(l[li], r[ri])
+      }
+      return l.join('') + r.join('')
+    }
+    return left + right
+  }
+  return (prefixes: string[], stem: string, suffixes: string[]) => {
+    let word = stem
+    suffixes = suffixes.filter((s) => s)
+    prefixes = prefixes.filter((s) => s)
+    for (let i = 0; i < suffixes.length; i++) {
+      word = juncture(word, suffixes[i], true, prefixes.length === 0, i === suffixes.length - 1)
+    }
+    for (let i = prefixes.length - 1; i >= 0; i--) word = juncture(prefixes[i], word, false, i === 0, true)
+    return word
+  }
+}
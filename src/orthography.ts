@@ -0,0 +1,253 @@
+import { consonantIPA, PhonologyEngine, vowelIPA } from './phonology'
+import { capitalize, isCombiningMark } from './util'
+
+/**
+ * How a language is spelled. The phonemes of the default orthography are respelled by one of the
+ * built-in schemes or by a map from default spellings to graphemes, such as `{ ng: 'ŋ', dh: 'ð' }`.
+ * Vowel diacritics, the length mark ː, and the stress mark ˈ may also be respelled.
+ *
+ * Some schemes cannot distinguish every phoneme. Strict ASCII, in particular, drops tone marks,
+ * nasalization, and written stress.
+ */
+export type Orthography = OrthographyScheme | Record<string, string>
+
+type OrthographyScheme = 'default' | 'digraph' | 'diacritic' | 'ascii' | 'ipa'
+
+/**
+ * Converts text between the default spelling and an orthography.
+ */
+export type Speller = {
+  write: (text: string) => string
+  read: (text: string) => string
+}
+
+const schemes: Record<OrthographyScheme, Record<string, string>> = {
+  default: {},
+  // Welsh, Pinyin, and English habits, though th is taken by the aspirated stop
+  digraph: {
+    θ: 'tx',
+    tθ: 'ttx',
+    ll: 'lh',
+    ɮ: 'dl',
+    tll: 'tl',
+    "tll'": "tl'",
+    ɾ: 'rh',
+    ḍ: 'dr',
+    ṭ: 'tr',
+    ṭh: 'trh',
+    ẓ: 'zh',
+    ṣ: 'sh',
+    ḍẓ: 'dzh',
+    ṭṣ: 'tsh',
+    ṇ: 'nr',
+    ɻ: 'rl',
+    ḷ: 'lr',
+    ṛ: 'rd',
+    ɟ: 'gy',
+    c: 'ky',
+    ch: 'kyh',
+    "c'": "ky'",
+    ʝ: 'yh',
+    ç: 'hy',
+    ñ: 'ny',
+    ʎ: 'ly',
+    ʁ: 'rq',
+    χ: 'qh',
+    ʀ: 'qr',
+    ö: 'oe',
+    ë: 'eh',
+    ä: 'ae',
+    y: 'ue',
+  },
+  // Czech, Sami, and Americanist habits
+  diacritic: {
+    ph: 'ṗ',
+    th: 'ṫ',
+    kh: 'k̇',
+    ch: 'ċ',
+    dh: 'đ',
+    θ: 'ŧ',
+    ddh: 'dđ',
+    tθ: 'tŧ',
+    ts: 'c',
+    "ts'": 'cʼ',
+    dz: 'ǳ',
+    tll: 'ƛ',
+    "tll'": 'ƛʼ',
+    ll: 'ł',
+    c: 'ť',
+    "c'": 'ťʼ',
+    ɟ: 'ď',
+    ʝ: 'ǰ',
+    ñ: 'ň',
+    ʎ: 'ľ',
+    gh: 'ğ',
+    kx: 'ǩ',
+    "kx'": 'ǩʼ',
+    ng: 'ŋ',
+    ɾ: 'ŕ',
+    rr: 'ř',
+    ʁ: 'ġ',
+    χ: 'ḫ',
+    ʀ: 'ȓ',
+    "'": 'ʼ',
+    "p'": 'pʼ',
+    "t'": 'tʼ',
+    "k'": 'kʼ',
+    "q'": 'qʼ',
+    y: 'ü',
+  },
+  // the digraphs above, and Zulu spellings for the clicks, doubled so they are not read as the
+  // consonants c, q, and x; everything else loses its diacritics
+  ascii: {
+    θ: 'tx',
+    tθ: 'ttx',
+    ll: 'lh',
+    ɮ: 'dl',
+    tll: 'tl',
+    "tll'": "tl'",
+    ʘ: 'pc',
+    gʘ: 'gpc',
+    ʘh: 'pch',
+    ǀ: 'cc',
+    gǀ: 'gcc',
+    ǀh: 'cch',
+    ǃ: 'qq',
+    gǃ: 'gqq',
+    ǃh: 'qqh',
+    ǁ: 'xx',
+    gǁ: 'gxx',
+    ǁh: 'xxh',
+    ǂ: 'tc',
+    gǂ: 'gtc',
+    ǂh: 'tch',
+    ɾ: 'rh',
+    ḍ: 'dr',
+    ṭ: 'tr',
+    ṭh: 'trh',
+    ẓ: 'zh',
+    ṣ: 'sh',
+    ḍẓ: 'dzh',
+    ṭṣ: 'tsh',
+    ṇ: 'nr',
+    ɻ: 'rl',
+    ḷ: 'lr',
+    ṛ: 'rd',
+    ɟ: 'gy',
+    ʝ: 'jh',
+    ç: 'hy',
+    ñ: 'ny',
+    ʎ: 'ly',
+    ʁ: 'rq',
+    χ: 'qh',
+    ʀ: 'qr',
+    ö: 'oe',
+    ë: 'eh',
+    ä: 'ae',
+    ː: ':',
+    ˈ: '',
+  },
+  ipa: { ...consonantIPA, ...vowelIPA, ː: 'ː' },
+}
+
+// applies a function to each word of a text, preserving capitalization
+export function byWord(text: string, f: (word: string) => string): string {
+  return text.replace(/[^\s.,;!?]+/g, (word) => {
+    const lower = word.toLowerCase()
+    return lower === word ? f(word) : capitalize(f(lower))
+  })
+}
+
+/**
+ * Makes the functions that respell text from the default orthography into another and that read
+ * it back again. Neither consumes random numbers, so a language may be spelled in any orthography
+ * without changing the text it generates.
+ *
+ * @param o - the orthography
+ * @param p - the language's phonology
+ * @returns the speller
+ */
+export function makeSpeller(o: Orthography, p: Readonly<PhonologyEngine>): Speller {
+  const map = typeof o === 'string' ? schemes[o] : o
+  if (Object.keys(map).length === 0) return { write: (text) => text, read: (text) => text }
+  const notation = p.config().vowels?.longVowelNotation
+  const lengthMark = map['ː']
+  const letter = (c: string) => map[c] ?? c
+  const letters = (segment: string) => Array.from(segment).filter((c) => !isCombiningMark(c) && c !== 'ː')
+  const spellVowel = (segment: string, previous?: string): string => {
+    const chars = Array.from(segment)
+    let marks = chars.filter(isCombiningMark)
+    let long = chars.includes('ː')
+    if (lengthMark !== undefined) {
+      // the second letter of a doubled vowel becomes the orthography's length mark
+      if (notation === 'double' && previous && letters(previous).join('') === letters(segment).join('')) {
+        return lengthMark
+      }
+      // so does a macron marking length
+      if (notation === 'macron' && marks.includes('\u0304')) {
+        marks = marks.filter((c) => c !== '\u0304')
+        long = true
+      }
+    }
+    if (map[segment] !== undefined) return map[segment]
+    const spelled = letters(segment).map(letter)
+    // diacritics go on the first letter of the first grapheme
+    const first = Array.from(spelled[0] ?? '')
+    let i = 1
+    while (i < first.length && isCombiningMark(first[i])) i++
+    first.splice(i, 0, ...marks.map(letter))
+    spelled[0] = first.join('')
+    return spelled.join('') + (long ? letter('ː') : '')
+  }
+  const spell = (word: string): string => {
+    let previous: string | undefined
+    let spelled = ''
+    for (const segment of p.segments(word)) {
+      if (p.isVowel(segment)) spelled += spellVowel(segment, previous)
+      else if (map[segment] !== undefined) spelled += map[segment]
+      else spelled += Array.from(segment).map(letter).join('')
+      previous = p.isVowel(segment) ? segment : undefined
+    }
+    // whatever has no ASCII spelling is dropped
+    return o === 'ascii' ? spelled.normalize('NFD').replace(/[^\x00-\x7f]/g, '') : spelled
+  }
+  // the graphemes of this language's phonemes and marks, longest first
+  const vowels = p.config().vowels ?? {}
+  const phonemes = new Set(p.consonants())
+  for (const v of (vowels.vocalicSyllableNuclei ?? []).concat(vowels.diphthongs ?? [])) {
+    for (const c of letters(v)) phonemes.add(c)
+  }
+  for (const c of Object.keys(map)) if (c === 'ː' || c === 'ˈ' || isCombiningMark(c)) phonemes.add(c)
+  const graphemes: [string, string][] = []
+  for (const phoneme of Array.from(phonemes)) {
+    const grapheme = letter(phoneme)
+    if (grapheme) graphemes.push([grapheme, phoneme])
+  }
+  graphemes.sort(([a], [b]) => b.length - a.length)
+  // the length of the grapheme at i and the diacritics it bears after its first letter
+  const match = (word: string, i: number, grapheme: string): [number, string] | undefined => {
+    if (word.startsWith(grapheme, i)) return [grapheme.length, '']
+    if (grapheme.length < 2 || word.charAt(i) !== grapheme.charAt(0)) return undefined
+    let j = i + 1
+    while (j < word.length && isCombiningMark(word.charAt(j))) j++
+    if (j === i + 1 || !word.startsWith(grapheme.slice(1), j)) return undefined
+    return [j - i + grapheme.length - 1, word.slice(i + 1, j)]
+  }
+  const unspell = (word: string): string => {
+    let read = ''
+    for (let i = 0; i < word.length; ) {
+      let found = false
+      for (const [grapheme, phoneme] of graphemes) {
+        const m = match(word, i, grapheme)
+        if (!m) continue
+        read += phoneme + m[1]
+        i += m[0]
+        found = true
+        break
+      }
+      if (!found) read += word.charAt(i++)
+    }
+    return read
+  }
+  return { write: (text) => byWord(text, spell), read: (text) => byWord(text, unspell) }
+}
@@ -1,14 +1,23 @@
 import { pickMe, pickMeToo, Rng } from 'pick-me-too'
-import { assertNever, combinations, compact, Hmm, pickN, uniqBy } from './util'
+import { assertNever, combinations, compact, hash, Hmm, isCombiningMark, pickN, uniqBy } from './util'
 
 export type Phonology = {
   closedSyllables?: boolean
   consonantClusters?: { initial?: boolean; final?: boolean }
   vowels?: {
+    /**
+     * The monophthongs.
+     */
     vocalicSyllableNuclei?: string[]
+    diphthongs?: string[]
+    /**
+     * The monophthongs that have nasalized counterparts.
+     */
+    nasalVowels?: string[]
     nonVocalicSyllableNuclei?: string[]
     vowelComplexity?: VowelComplexity
     longVowels?: boolean
+    longVowelNotation?: LongVowelNotation
   }
   consonants?: {
     placesOfArticulation?: PlaceOfArticulation[]
@@ -17,32 +26,149 @@ export type Phonology = {
     mayHaveAffricates?: boolean
     mayHaveNasals?: boolean
     mayHaveApproximants?: boolean
+    mayHaveLateralFricatives?: boolean
+    mayHaveLateralApproximants?: boolean
+    mayHaveTrills?: boolean
+    mayHaveTaps?: boolean
+    mayHaveClicks?: boolean
     stops?: string[]
     fricatives?: string[]
     affricates?: string[]
     nasals?: string[]
     approximants?: string[]
+    lateralFricatives?: string[]
+    lateralApproximants?: string[]
+    trills?: string[]
+    taps?: string[]
+    clicks?: string[]
   }
+  /**
+   * Weighted syllable shapes, such as `[['CV', 5], ['CVC', 2], ['V', 1]]`. If these are not
+   * supplied they are inferred from the other parameters.
+   */
+  syllableTemplates?: [string, number][]
+  phonotactics?: Phonotactics
+  vowelHarmony?: VowelHarmony
+  tone?: ToneSystem
+  stress?: StressSystem
+  allophony?: Allophony
+  /**
+   * The relative frequencies of phonemes, such as `{ t: 3, "t'": 0.2 }`, keyed by their default
+   * spellings, nasal vowels by their nasalized forms. Phonemes without a weight are weighted by how
+   * common they are across languages, so unmarked sounds dominate.
+   */
+  frequencies?: Record<string, number>
   /**
    * A record generated from the paramters above.
    */
   numberPossibleSyllables?: number
 }
 
+/**
+ * Constraints on consonant clusters. Under the sonority sequencing principle sonority must rise
+ * through an onset and fall through a coda by at least the minimum distance. Under place assimilation
+ * a nasal must share the place of articulation of an obstruent that follows it. Clusters listed as
+ * allowed are added regardless of these constraints; forbidden clusters are removed.
+ */
+export type Phonotactics = {
+  sonoritySequencing?: boolean
+  minimumSonorityDistance?: number
+  placeAssimilation?: boolean
+  allowedOnsets?: string[]
+  allowedCodas?: string[]
+  forbiddenClusters?: string[]
+}
+
+/**
+ * Vowel harmony constrains the vowels of a word to a single class. The classes are parallel lists:
+ * the nth vowel of one class alternates with the nth vowel of every other class. Neutral vowels
+ * neither trigger harmony nor change to agree with it.
+ */
+export type VowelHarmony = {
+  feature?: HarmonyFeature
+  classes?: string[][]
+  neutral?: string[]
+}
+
+type HarmonyFeature = 'backness' | 'rounding' | 'none'
+
+/**
+ * A system of lexical tone. Every syllable carries one of the tones in the inventory. A language
+ * without tone has zero tones.
+ */
+export type ToneSystem = {
+  tones?: number
+  contour?: boolean
+  marking?: ToneMarking
+  inventory?: Tone[]
+}
+
+export type Tone = 'high' | 'mid' | 'low' | 'extraHigh' | 'extraLow' | 'rising' | 'falling' | 'dipping' | 'peaking'
+
+// combining diacritics on the nucleus or the tone's number in the inventory after the syllable
+type ToneMarking = 'diacritic' | 'numeric'
+
+/**
+ * Where stress falls in a word and whether it is written. Weight-sensitive stress falls, as in Latin,
+ * on the penult if it is heavy and otherwise on the antepenult. Lexical stress is a property of
+ * each word and cannot be predicted from its shape.
+ */
+export type StressSystem = {
+  placement?: StressPlacement
+  marking?: StressMarking
+}
+
+/**
+ * Rules by which phonemes are pronounced differently in different surroundings. They are heard
+ * only in narrow transcriptions; the spelling of a word is always phonemic.
+ */
+export type Allophony = {
+  /**
+   * Unvoiced stops, fricatives, and affricates are voiced between vowels.
+   */
+  intervocalicVoicing?: boolean
+  /**
+   * Voiced stops, fricatives, and affricates are unvoiced after the last vowel of a word.
+   */
+  finalDevoicing?: boolean
+  /**
+   * Velar and alveolar consonants are palatalized before front vowels.
+   */
+  palatalization?: boolean
+  /**
+   * Short monophthongs are reduced to schwa in unstressed syllables.
+   */
+  vowelReduction?: boolean
+}
+
+type StressPlacement = 'initial' | 'penultimate' | 'final' | 'weight' | 'lexical' | 'none'
+
+// an acute accent on the stressed vowel or an IPA stress mark before the stressed syllable
+type StressMarking = 'none' | 'acute' | 'ipa'
+
 type phonemeGenerator = () => string
 
 type VowelComplexity = 'minimal' | 'simple' | 'canonical' | 'complex'
 
+// aa, ā, or aː
+type LongVowelNotation = 'double' | 'macron' | 'mark'
+
 /**
  * Something that picks the syllables that may appear in a language -- the consonants,
  * vowels, and their arrangement.
  * 
- * There is a great deal of phonology that is ignored by this engine. There are no tones,
- * vowel harmony, mutations, nasal vowels, and on and on and on. But it's a start.
+ * There is a great deal of phonology that is ignored by this engine. There are no mutations,
+ * no ablaut, and on and on and on. But it's a start.
  */
 export class PhonologyEngine {
   private phonology: Phonology
-  private syllableGenerator: () => string
+  private syllableGenerator: (tone?: Tone) => string
+  private harmonizer: (s: string, trigger?: string) => string
+  private consonantInventory: string[]
+  private vowelInventory: Set<string>
+  private phonemesByLength: string[]
+  private onsets: Set<string>
+  private codas: Set<string>
   /**
    * Creates an instance of phonology engine.
    * @param [p] - optional configuration
@@ -51,10 +177,28 @@ export class PhonologyEngine {
   constructor(p: Phonology = {}, rng: Rng = () => Math.random()) {
     this.phonology = p
     const h = new Hmm(rng)
+    // tones come first so the notation of long vowels can avoid clashing with tone marks
+    const [toner, toneCombinations] = pickTones(p, rng, h)
     const [nucleus, nucleusCombinations] = pickVowels(p, rng, h)
-    const [onset, coda, onsetCombinations, codaCombinations] = pickConsonants(p, rng, h)
-    p.numberPossibleSyllables = onsetCombinations * nucleusCombinations * codaCombinations
-    this.syllableGenerator = () => onset() + nucleus() + coda()
+    const [onset, coda] = pickConsonants(p, rng, h)
+    const [shape, marginCombinations] = pickSyllableTemplates(p, onset, coda, rng)
+    p.numberPossibleSyllables = marginCombinations * nucleusCombinations * toneCombinations
+    this.onsets = onset.forms
+    this.codas = coda.forms
+    this.syllableGenerator = (tone?: Tone) => {
+      const [o, c] = shape()
+      return toner(onset.pickers[o]!(), nucleus(), coda.pickers[c]!(), tone)
+    }
+    this.harmonizer = pickVowelHarmony(p, rng)
+    const c = p.consonants!
+    this.consonantInventory = []
+    for (const manner of (obstruents as Manner[]).concat(sonorants)) this.consonantInventory.push(...(c[manner] ?? []))
+    this.vowelInventory = vowelLetters(p)
+    const vowels = (p.vowels?.vocalicSyllableNuclei ?? []).concat(p.vowels?.diphthongs ?? [])
+    this.phonemesByLength = uniqBy(this.consonantInventory.concat(vowels), (ph) => ph)
+    this.phonemesByLength.sort((a, b) => b.length - a.length)
+    pickStress(p, rng, h)
+    pickAllophony(p, h)
   }
   /**
    * Provides the configuration parameters used by the engine.
@@ -71,12 +215,406 @@ export class PhonologyEngine {
     return this.phonology
   }
   /**
-   * Generates a random syllable.
-   * 
-   * @returns syllable 
+   * Generates a random syllable. If the language is tonal, the syllable carries a tone.
+   *
+   * @param [tone] - the tone the syllable should carry; by default a tone is picked at random
+   * @returns syllable
+   */
+  syllable(tone?: Tone): string {
+    return this.syllableGenerator(tone)
+  }
+  /**
+   * Makes the vowels of a string agree with the harmony class of the first harmonizing vowel
+   * in the trigger. If the language has no vowel harmony, or the trigger contains no harmonizing
+   * vowel, the string is returned unchanged.
+   *
+   * @param s - the string to harmonize, typically an adfix
+   * @param [trigger] - the string whose vowels determine the harmony class, typically a stem; defaults to the string itself
+   * @returns the harmonized string
+   */
+  harmonize(s: string, trigger?: string): string {
+    return this.harmonizer(s, trigger)
+  }
+  /**
+   * Provides the consonants of the language.
+   *
+   * @returns the consonant inventory
+   */
+  consonants(): string[] {
+    return this.consonantInventory.slice()
+  }
+  /**
+   * Provides the letters that spell the language's vowels and diphthongs.
+   *
+   * @returns the vowel letters
    */
-  syllable(): string {
-    return this.syllableGenerator()
+  vowels(): string[] {
+    return Array.from(this.vowelInventory).filter((c) => !isCombiningMark(c))
+  }
+  /**
+   * Provides the marks the language writes besides its letters: nasalization, length, tone,
+   * and stress.
+   *
+   * @returns the diacritics, length mark, tone numbers, and stress mark the language may write
+   */
+  marks(): string[] {
+    const marks: string[] = []
+    const v = this.phonology.vowels ?? {}
+    if (v.nasalVowels?.length) marks.push('\u0303')
+    if (v.longVowels && v.longVowelNotation === 'macron') marks.push('\u0304')
+    if (v.longVowels && v.longVowelNotation === 'mark') marks.push('ː')
+    const inventory = this.phonology.tone!.inventory!
+    if (this.phonology.tone!.marking === 'numeric') {
+      for (let i = 0; i <= inventory.length; i++) marks.push(`${i}`)
+    } else {
+      for (const tone of inventory) marks.push(toneDiacritics[tone])
+    }
+    const stress = this.phonology.stress!.marking
+    if (stress === 'acute') marks.push('\u0301')
+    if (stress === 'ipa') marks.push('ˈ')
+    return uniqBy(marks, (m) => m)
+  }
+  /**
+   * Breaks a word into its segments: the longest consonants and vowels in the inventory that
+   * compose it. Diacritics and length marks stay with the segment they modify. Tone numbers
+   * and other characters outside the inventory are segments of their own.
+   *
+   * @param word - a word or any part of one
+   * @returns the segments of the word in order
+   */
+  segments(word: string): string[] {
+    const segments: string[] = []
+    let i = 0
+    while (i < word.length) {
+      let segment = this.phonemesByLength.find((ph) => word.startsWith(ph, i)) ?? word.charAt(i)
+      i += segment.length
+      // diacritics and length marks belong to the preceding segment
+      while (i < word.length && (isCombiningMark(word.charAt(i)) || word.charAt(i) === 'ː')) {
+        segment += word.charAt(i++)
+      }
+      segments.push(segment)
+    }
+    return segments
+  }
+  /**
+   * Whether a segment is a vowel or diphthong, with or without diacritics.
+   *
+   * @param segment - a segment, as produced by {@link segments}
+   * @returns whether the segment is vocalic
+   */
+  isVowel(segment: string): boolean {
+    const letters = Array.from(segment).filter((c) => !isCombiningMark(c) && c !== 'ː')
+    return letters.length > 0 && letters.every((c) => this.vowelInventory.has(c))
+  }
+  /**
+   * Describes a consonant by its place of articulation, manner, and voicing.
+   *
+   * @param consonant - a consonant
+   * @returns the consonant's features, or undefined if the consonant is unknown
+   */
+  features(consonant: string): Readonly<ConsonantFeatures> | undefined {
+    return consonantFeatures.get(consonant)
+  }
+  /**
+   * Breaks a word into syllables. Consonants between vowels go to the following syllable so long
+   * as they make a possible onset; a single consonant always does.
+   *
+   * @param word - a word
+   * @returns the syllables of the word in order
+   */
+  syllabify(word: string): string[] {
+    const segments = this.segments(word)
+    const double = this.phonology.vowels?.longVowelNotation === 'double'
+    const bare = (s: string) =>
+      Array.from(s)
+        .filter((c) => !isCombiningMark(c))
+        .join('')
+    // the start and end of each nucleus
+    const nuclei: [number, number][] = []
+    segments.forEach((s, i) => {
+      if (!this.isVowel(s)) return
+      const previous = nuclei[nuclei.length - 1]
+      // a doubled vowel is a single long vowel
+      if (double && previous?.[1] === i && bare(segments[i - 1]) === bare(s)) previous[1]++
+      else nuclei.push([i, i + 1])
+    })
+    const syllables: string[] = []
+    let start = 0
+    for (let k = 1; k < nuclei.length; k++) {
+      const end = nuclei[k - 1][1],
+        next = nuclei[k][0]
+      // a stress mark begins a syllable; tone numbers end one
+      const mark = segments.indexOf('ˈ', end)
+      let onset = next
+      if (mark >= 0 && mark < next) {
+        onset = mark
+      } else {
+        let boundary = end
+        for (let i = end; i < next; i++) if (suprasegmental.test(segments[i])) boundary = i + 1
+        for (let i = boundary; i < next; i++) {
+          if (i === next - 1 || this.onsets.has(segments.slice(i, next).join(''))) {
+            onset = i
+            break
+          }
+        }
+      }
+      syllables.push(segments.slice(start, onset).join(''))
+      start = onset
+    }
+    syllables.push(segments.slice(start).join(''))
+    return syllables
+  }
+  /**
+   * Finds the stressed syllable of a word.
+   *
+   * @param word - a word
+   * @returns the index of the stressed syllable among the word's syllables, or -1 if the language has no stress
+   */
+  stress(word: string): number {
+    return this.stressedSyllable(this.syllabify(word), word)
+  }
+  /**
+   * Writes the stress of a word according to the language's stress marking. Monosyllables are
+   * left unmarked.
+   *
+   * @param word - an unmarked word
+   * @returns the word with its stress marked
+   */
+  accent(word: string): string {
+    const marking = this.phonology.stress!.marking!
+    if (marking === 'none') return word
+    const syllables = this.syllabify(word)
+    if (syllables.length < 2) return word
+    const i = this.stressedSyllable(syllables, word)
+    if (i < 0) return word
+    switch (marking) {
+      case 'acute': {
+        const segments = this.segments(syllables[i])
+        const n = segments.findIndex((s) => this.isVowel(s))
+        segments[n] = markTone(segments[n], '\u0301')
+        syllables[i] = segments.join('')
+        break
+      }
+      case 'ipa':
+        syllables[i] = 'ˈ' + syllables[i]
+        break
+      default:
+        assertNever(marking)
+    }
+    return syllables.join('')
+  }
+  /**
+   * Adapts a word written in the Latin alphabet, such as a foreign name, to the language: each
+   * sound becomes the nearest phoneme in the inventory, and consonant clusters the syllables
+   * cannot hold are broken up by an epenthetic vowel.
+   *
+   * @param word - a word in any language written in the Latin alphabet
+   * @returns the word as a stem of this language
+   */
+  nativize(word: string): string {
+    const latin = word
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[^a-z]/g, '')
+    // the sounds the spelling most likely stands for
+    const sounds: string[] = []
+    for (let i = 0; i < latin.length; ) {
+      const [spelling, sound] = latinSpellings.find(([l]) => latin.startsWith(l, i)) ?? [latin[i], latin[i]]
+      const next = latin.charAt(i + spelling.length)
+      if (spelling === 'c') sounds.push(/[eiy]/.test(next) ? 's' : 'k')
+      else if (spelling === 'y') sounds.push(/[aeiou]/.test(next) ? 'j' : 'i')
+      else if (sound) sounds.push(...sound.split(' '))
+      i += spelling.length
+      // double letters spell single consonants
+      while (!/[aeiou]/.test(spelling) && latin.startsWith(spelling, i)) i += spelling.length
+    }
+    const vowels = (this.phonology.vowels?.vocalicSyllableNuclei ?? []).filter((v) => v.length === 1)
+    const phonemes = sounds.map((sound) =>
+      vowelFeatures[sound] ? this.nearestVowel(sound, vowels) : this.nearestConsonant(sound),
+    )
+    // the vowel inserted in clusters, the least marked the language has
+    const epenthetic = ['i', 'e', 'a', 'u', 'o'].find((v) => vowels.includes(v)) ?? vowels[0]
+    const maxOnset = Math.max(...Array.from(this.onsets).map((o) => this.segments(o).length))
+    const maxCoda = Math.max(...Array.from(this.codas).map((c) => this.segments(c).length))
+    const legalOnset = (c: string[]) =>
+      c.length === 0 || (c.length === 1 && maxOnset > 0) || this.onsets.has(c.join(''))
+    const legalCoda = (c: string[]) => c.length === 0 || (c.length === 1 && maxCoda > 0) || this.codas.has(c.join(''))
+    // a cluster as a legal coda, consonants each followed by the epenthetic vowel, and a legal onset
+    const repair = (cluster: string[], initial: boolean, final: boolean): string[] => {
+      if (!initial && !final) {
+        for (let k = 0; k <= cluster.length; k++) {
+          if (legalCoda(cluster.slice(0, k)) && legalOnset(cluster.slice(k))) return cluster
+        }
+      }
+      let k = 0
+      if (!initial) while (k < cluster.length && legalCoda(cluster.slice(0, k + 1))) k++
+      let m = cluster.length
+      if (!final) while (m > k && legalOnset(cluster.slice(m - 1))) m--
+      const repaired = cluster.slice(0, k)
+      for (const c of cluster.slice(k, m)) if (maxOnset > 0) repaired.push(c, epenthetic)
+      return repaired.concat(cluster.slice(m))
+    }
+    const segments: string[] = []
+    let cluster: string[] = []
+    for (const phoneme of phonemes) {
+      if (phoneme === undefined) continue
+      if (this.isVowel(phoneme)) {
+        segments.push(...repair(cluster, segments.length === 0, false), phoneme)
+        cluster = []
+      } else {
+        cluster.push(phoneme)
+      }
+    }
+    segments.push(...repair(cluster, segments.length === 0, true))
+    return this.harmonize(segments.join(''))
+  }
+  // the vowel of the inventory nearest a vowel
+  private nearestVowel(vowel: string, vowels: string[]): string | undefined {
+    const [height, backness, rounding] = vowelFeatures[vowel]
+    let nearest: string | undefined
+    let distance = Infinity
+    for (const v of vowels) {
+      const f = vowelFeatures[v]
+      if (!f) continue
+      const d = Math.abs(f[0] - height) + Math.abs(f[1] - backness) + Math.abs(f[2] - rounding)
+      if (d < distance) [nearest, distance] = [v, d]
+    }
+    return nearest
+  }
+  // the consonant of the inventory nearest a consonant
+  private nearestConsonant(consonant: string): string | undefined {
+    if (this.consonantInventory.includes(consonant)) return consonant
+    const f = consonantFeatures.get(consonant)
+    if (!f) return undefined
+    let nearest: string | undefined
+    let distance = Infinity
+    for (const c of this.consonantInventory) {
+      const g = consonantFeatures.get(c)
+      if (!g) continue
+      const d =
+        Math.abs(places.indexOf(f.place) - places.indexOf(g.place)) +
+        2 * Math.abs(sonority[f.manner] - sonority[g.manner]) +
+        (f.manner === g.manner ? 0 : 1) +
+        (f.voicing === g.voicing ? 0 : 1)
+      if (d < distance) [nearest, distance] = [c, d]
+    }
+    return nearest
+  }
+  /**
+   * Makes an IPA transcription of a word. Stress that is written is always transcribed;
+   * unwritten stress is transcribed where it can be predicted from the shape of the word. A broad
+   * transcription shows only phonemes; a narrow one also shows the language's allophony.
+   *
+   * @param word - a word in the language's orthography
+   * @param [predictStress] - whether to transcribe unwritten stress
+   * @param [narrow] - whether to transcribe allophones
+   * @returns the transcription
+   */
+  toIPA(word: string, predictStress = true, narrow = false): string {
+    const syllables = this.syllabify(word)
+    const tone = this.phonology.tone!
+    const double = this.phonology.vowels?.longVowelNotation === 'double'
+    const allophony: Allophony = narrow ? this.phonology.allophony! : {}
+    // acute accents mark stress unless they mark tone
+    const acute = this.phonology.stress!.marking === 'acute' && tone.marking !== 'diacritic'
+    let stressed = syllables.findIndex((s) => s.includes('ˈ') || (acute && s.includes('\u0301')))
+    if (stressed < 0 && predictStress && syllables.length > 1) stressed = this.stressedSyllable(syllables, word)
+    // the phonemes of the whole word, so consonants can see their neighbors across syllables
+    const segmented = syllables.map((s) => this.segments(s.replace('ˈ', '')))
+    const phonemes = ([] as string[]).concat(...segmented).filter((s) => !suprasegmental.test(s))
+    let k = 0
+    return syllables
+      .map((syllable, i) => {
+        const segments = segmented[i]
+        const vocalic = segments.some((s) => this.isVowel(s))
+        const phones = segments.map((s, j) => {
+          if (/^[0-9]$/.test(s)) return s === '0' ? '' : chaoTones[tone.inventory![Number(s) - 1]]
+          if (suprasegmental.test(s)) return s
+          const after = phonemes[++k]
+          if (this.isVowel(s)) {
+            // a doubled vowel is written once and lengthened
+            if (double && segments[j - 1]?.charAt(0) === s.charAt(0)) return 'ː'
+            const vowel = this.vowelToIPA(acute ? s.replace('\u0301', '') : s)
+            const short = !(double && after?.charAt(0) === s.charAt(0)) && /^.[\u0300-\u036f]*$/.test(vowel)
+            if (allophony.vowelReduction && stressed >= 0 && i !== stressed && short) return 'ə' + vowel.slice(1)
+            return vowel
+          }
+          const phone = this.consonantToIPA(phonemes, k - 1, allophony)
+          // a consonant serving as a nucleus is syllabic
+          return !vocalic && this.phonology.vowels?.nonVocalicSyllableNuclei?.includes(s) ? phone + '\u0329' : phone
+        })
+        return (i === stressed ? 'ˈ' : '') + phones.join('')
+      })
+      .join('')
+  }
+  // the IPA for the consonant at k among a word's phonemes, pronounced as the allophony dictates
+  private consonantToIPA(phonemes: string[], k: number, a: Allophony): string {
+    const consonant = phonemes[k]
+    const f = consonantFeatures.get(consonant)
+    if (!f) return consonantIPA[consonant] ?? consonant
+    const before = phonemes[k - 1],
+      after = phonemes[k + 1]
+    const isVowel = (s?: string): s is string => s !== undefined && this.isVowel(s)
+    let c = consonant
+    if (a.finalDevoicing && f.voicing === 'voiced' && !phonemes.slice(k + 1).some(isVowel)) {
+      c = revoice(c, 'unvoiced') ?? c
+    }
+    if (a.intervocalicVoicing && f.voicing === 'unvoiced' && isVowel(before) && isVowel(after)) {
+      c = revoice(c, 'voiced') ?? c
+    }
+    const phone = consonantIPA[c] ?? c
+    const palatalized =
+      a.palatalization &&
+      isVowel(after) &&
+      frontVowels.includes(after.charAt(0)) &&
+      palatalizedPlaces.includes(f.place) &&
+      palatalizedManners.includes(f.manner)
+    return palatalized ? phone + 'ʲ' : phone
+  }
+  // the IPA for a vowel segment, with its diacritics
+  private vowelToIPA(segment: string): string {
+    const chars = Array.from(segment)
+    const letters = chars.filter((c) => !isCombiningMark(c) && c !== 'ː')
+    let marks = chars.filter((c) => isCombiningMark(c)).join('')
+    let length = segment.includes('ː') ? 'ː' : ''
+    if (this.phonology.vowels?.longVowelNotation === 'macron' && marks.includes('\u0304')) {
+      marks = marks.replace('\u0304', '')
+      length = 'ː'
+    }
+    // the later vowels of a diphthong are non-syllabic
+    const vowels = letters.map((c, i) => (vowelIPA[c] ?? c) + (i === 0 ? marks : '\u032F'))
+    return vowels.join('') + length
+  }
+  private stressedSyllable(syllables: string[], word: string): number {
+    const placement = this.phonology.stress!.placement!
+    const n = syllables.length
+    switch (placement) {
+      case 'none':
+        return -1
+      case 'initial':
+        return 0
+      case 'penultimate':
+        return Math.max(n - 2, 0)
+      case 'final':
+        return n - 1
+      case 'weight':
+        if (n < 3) return 0
+        return this.heavy(syllables[n - 2]) ? n - 2 : n - 3
+      case 'lexical':
+        return hash(word) % n
+      default:
+        assertNever(placement)
+    }
+  }
+  // whether a syllable has a long vowel, a diphthong, or a coda
+  private heavy(syllable: string): boolean {
+    const segments = this.segments(syllable).filter((s) => !suprasegmental.test(s))
+    const n = segments.findIndex((s) => this.isVowel(s))
+    if (n < 0) return false
+    if (segments.length > n + 1) return true
+    const nucleus = segments[n]
+    if (this.phonology.vowels?.longVowelNotation === 'macron' && nucleus.includes('\u0304')) return true
+    return Array.from(nucleus).filter((c) => !isCombiningMark(c)).length > 1
   }
 }
 
@@ -102,48 +640,72 @@ const simpleVowelPicker = pickMeToo([
 ]) as any as (rng: Rng) => () => string[]
 
 const complexCountPicker = pickMeToo([
-  [6, 1],
-  [7, 2],
+  [6, 3],
+  [7, 4],
   [8, 3],
-  [9, 4],
-  [10, 5],
-  [11, 6],
-  [12, 7],
-  [13, 8],
-  [14, 9],
-  [15, 10],
-  [16, 11],
-  [17, 11],
+  [9, 2],
 ])
 
 const complexVowelPicker = pickMeToo([
   ['a', 1000],
+  ['e', 1000],
+  ['i', 1000],
+  ['o', 1000],
+  ['u', 1000],
+  ['y', 500],
+  ['ö', 500],
+  ['ë', 500], // ɛ
+  ['ä', 300],
+])
+
+const diphthongFrequencies: [string, number][] = [
   ['ai', 100],
   ['au', 100],
-  ['e', 1000],
+  ['ei', 90],
   ['eu', 90],
   ['eo', 10],
-  ['i', 1000],
   ['iu', 100],
-  ['o', 1000],
   ['oi', 100],
   ['ou', 100],
-  ['u', 1000],
   ['ui', 100],
   ['uo', 100],
   ['ue', 100],
-  ['y', 500],
   ['yi', 50],
-  ['yø', 50],
-  ['ö', 500],
+  ['yö', 50],
   ['öy', 50],
   ['öi', 50],
-  ['ë', 500], // ɛ
   ['ëi', 50],
   ['ëu', 50],
-  ['ä', 300],
   ['äi', 30],
   ['äu', 30],
+]
+
+// the probability that a language with a given vowel complexity has diphthongs
+const diphthongProbability: Record<VowelComplexity, number> = {
+  minimal: 0,
+  simple: 0.1,
+  canonical: 0.3,
+  complex: 0.8,
+}
+
+const diphthongCountPicker = pickMeToo([
+  [1, 5],
+  [2, 5],
+  [3, 4],
+  [4, 3],
+  [5, 2],
+  [6, 1],
+  [7, 1],
+  [8, 1],
+])
+
+// from https://wals.info/chapter/10
+const nasalVowelProbability = 64 / 244
+
+const longVowelNotationPicker = pickMeToo<LongVowelNotation>([
+  ['double', 5],
+  ['macron', 3],
+  ['mark', 1],
 ])
 
 const nonVocalicNucleusCountPicker = pickMeToo([
@@ -170,7 +732,22 @@ const nonVocalicFrequencies: [string, number][] = [
 
 const nonVocalicNucleusPicker = pickMeToo(nonVocalicFrequencies)
 
-const nonVocalicNuclei = new Set(nonVocalicFrequencies.map(([s]) => s))
+function nasalize(vowel: string): string {
+  return vowel + '\u0303'
+}
+
+function lengthen(vowel: string, notation: LongVowelNotation): string {
+  switch (notation) {
+    case 'double':
+      return vowel + vowel
+    case 'macron':
+      return vowel + '\u0304'
+    case 'mark':
+      return vowel + 'ː'
+    default:
+      assertNever(notation)
+  }
+}
 
 function pickVowels(p: Phonology, rng: () => number, h: Hmm): [phonemeGenerator, number] {
   const v = p.vowels ?? {}
@@ -195,52 +772,338 @@ function pickVowels(p: Phonology, rng: () => number, h: Hmm): [phonemeGenerator,
         assertNever(v.vowelComplexity)
     }
     v.vocalicSyllableNuclei = nuclei
+    if (!v.diphthongs) {
+      const monophthongs = new Set(nuclei)
+      const candidates = diphthongFrequencies.filter(([d]) => Array.from(d).every((c) => monophthongs.has(c)))
+      v.diphthongs =
+        candidates.length && h.maybe(diphthongProbability[v.vowelComplexity])
+          ? pickN(Math.min(candidates.length, diphthongCountPicker(rng)()), pickMe(candidates, rng))
+          : []
+    }
   }
-  if (!v.nonVocalicSyllableNuclei && h.maybe(0.02)) {
-    v.nonVocalicSyllableNuclei = pickN(nonVocalicNucleusCountPicker(rng)(), nonVocalicNucleusPicker(rng))
-  } else {
-    v.nonVocalicSyllableNuclei = []
-  }
+  // if the monophthongs were supplied, the diphthongs must be too
+  v.diphthongs ??= []
+  v.nasalVowels ??= h.maybe(nasalVowelProbability)
+    ? compact(v.vocalicSyllableNuclei.map((s) => (h.maybe(0.7) ? s : null)))
+    : []
+  v.nonVocalicSyllableNuclei ??= h.maybe(0.02)
+    ? pickN(nonVocalicNucleusCountPicker(rng)(), nonVocalicNucleusPicker(rng))
+    : []
+  const nasalVowels = v.nasalVowels.map(nasalize)
+  // a diphthong or nasal vowel is rarer than the vowels it is made of
+  const markedness = (s: string) => Array.from(s).reduce((n, c) => n * (vowelMarkedness[c] ?? 0.2), 1)
   const vowelFrequencies = v.vocalicSyllableNuclei
-    .map((s) => [s, rng() * 3])
-    .concat(v.nonVocalicSyllableNuclei.map((s) => [s, rng()])) as any as [string, number][]
+    .map((s) => [s, weigh(p, s, markedness(s), h)])
+    .concat(v.nasalVowels.map((s) => [nasalize(s), weigh(p, nasalize(s), 0.3 * markedness(s), h)]))
+    .concat(v.diphthongs.map((s) => [s, weigh(p, s, 0.3 * markedness(s), h)]))
+    .concat(v.nonVocalicSyllableNuclei.map((s) => [s, rng() * 0.3])) as any as [string, number][]
   v.longVowels ??= h.maybe(0.3)
   const nucleusPicker = pickMe(vowelFrequencies, rng)
-  let picker,
-    combinations = vowelFrequencies.length
-  if (v.longVowels) {
-    const longVowelProbability = h.fromRange(0.05, 0.5)
-    if (v.nonVocalicSyllableNuclei.length) {
-      for (const [v] of vowelFrequencies) {
-        if (v.length === 1 && !nonVocalicNuclei.has(v)) combinations++
-      }
-      picker = () => {
-        const s = nucleusPicker()
-        if (s.length == 2 || nonVocalicNuclei.has(s) || rng() > longVowelProbability) return s
-        return s + s
+  if (!v.longVowels) return [nucleusPicker, vowelFrequencies.length]
+  // only monophthongs, oral or nasal, may be long
+  const lengthenable = new Set(v.vocalicSyllableNuclei.concat(nasalVowels))
+  if (v.longVowelNotation === undefined) {
+    const tone = p.tone
+    // don't confuse a long vowel with a vowel bearing mid tone
+    const clash = tone?.marking === 'diacritic' && tone.inventory?.includes('mid')
+    do {
+      v.longVowelNotation = longVowelNotationPicker(rng)()
+    } while (clash && v.longVowelNotation === 'macron')
+  }
+  const notation = v.longVowelNotation
+  const longVowelProbability = h.fromRange(0.05, 0.5)
+  const picker = () => {
+    const s = nucleusPicker()
+    if (!lengthenable.has(s) || rng() > longVowelProbability) return s
+    return lengthen(s, notation)
+  }
+  return [picker, vowelFrequencies.length + lengthenable.size]
+}
+
+const toneCountPicker = pickMeToo([
+  [0, 307],
+  [2, 132],
+  [3, 44],
+  [4, 22],
+  [5, 14],
+  [6, 8],
+])
+
+const toneMarkingPicker = pickMeToo<ToneMarking>([
+  ['diacritic', 4],
+  ['numeric', 1],
+])
+
+const levelTones: Tone[] = ['high', 'low', 'mid', 'extraHigh', 'extraLow']
+
+const contourTones: Tone[] = ['falling', 'rising', 'dipping', 'peaking']
+
+const toneDiacritics: Record<Tone, string> = {
+  high: '\u0301',
+  mid: '\u0304',
+  low: '\u0300',
+  extraHigh: '\u030B',
+  extraLow: '\u030F',
+  rising: '\u030C',
+  falling: '\u0302',
+  dipping: '\u1DC9',
+  peaking: '\u1DC8',
+}
+
+function toneInventory(tones: number, contour: boolean): Tone[] {
+  const contours = contour ? Math.min(contourTones.length, Math.ceil(tones / 2)) : 0
+  const levels = Math.min(levelTones.length, tones - contours)
+  return levelTones.slice(0, levels).concat(contourTones.slice(0, contours))
+}
+
+// puts a diacritic after the first letter of the nucleus and any marks it already bears
+function markTone(nucleus: string, diacritic: string): string {
+  const chars = Array.from(nucleus)
+  let i = 1
+  while (i < chars.length && isCombiningMark(chars[i])) i++
+  return chars.slice(0, i).join('') + diacritic + chars.slice(i).join('')
+}
+
+// returns a function that assembles a syllable, giving it a tone, and the number of tones
+function pickTones(
+  p: Phonology,
+  rng: Rng,
+  h: Hmm,
+): [(onset: string, nucleus: string, coda: string, tone?: Tone) => string, number] {
+  const t = p.tone ?? {}
+  p.tone = t
+  if (t.inventory) {
+    t.tones = t.inventory.length
+    t.contour = t.inventory.some((tone) => contourTones.includes(tone))
+  } else {
+    t.tones ??= toneCountPicker(rng)()
+    t.contour ??= t.tones > 2 ? h.maybe(0.6) : h.maybe(0.1)
+    t.inventory = toneInventory(t.tones, t.contour)
+    // there are only so many level tones, so a language without contours may have fewer than asked for
+    t.tones = t.inventory.length
+  }
+  const inventory = t.inventory
+  if (inventory.length === 0) return [(onset, nucleus, coda) => onset + nucleus + coda, 1]
+  t.marking ??= toneMarkingPicker(rng)()
+  const tonePicker = pickMe(
+    inventory.map((tone) => [tone, h.n()] as [Tone, number]),
+    rng,
+  )
+  switch (t.marking) {
+    case 'diacritic':
+      return [
+        (onset, nucleus, coda, tone = tonePicker()) => onset + markTone(nucleus, toneDiacritics[tone]) + coda,
+        inventory.length,
+      ]
+    case 'numeric':
+      // a tone outside the inventory is written as 0
+      return [
+        (onset, nucleus, coda, tone = tonePicker()) => onset + nucleus + coda + (inventory.indexOf(tone) + 1),
+        inventory.length,
+      ]
+    default:
+      assertNever(t.marking)
+  }
+}
+
+// Chao tone letters for tones written as numbers
+const chaoTones: Record<Tone, string> = {
+  extraHigh: '˥',
+  high: '˦',
+  mid: '˧',
+  low: '˨',
+  extraLow: '˩',
+  rising: '˧˥',
+  falling: '˥˩',
+  dipping: '˨˩˦',
+  peaking: '˧˥˧',
+}
+
+export const vowelIPA: Record<string, string> = {
+  ö: 'ø',
+  ë: 'ə',
+  ä: 'æ',
+}
+
+// the sounds Latin letters and digraphs usually spell, in the phonemes of the default orthography;
+// c and y depend on the letter that follows
+const latinSpellings: [string, string][] = [
+  ['tch', 'ṭṣ'],
+  ['sch', 'ṣ'],
+  ['th', 'θ'],
+  ['sh', 'ṣ'],
+  ['ch', 'ṭṣ'],
+  ['zh', 'ẓ'],
+  ['ph', 'f'],
+  ['gh', 'g'],
+  ['kh', 'x'],
+  ['ng', 'ng'],
+  ['ck', 'k'],
+  ['qu', 'k w'],
+  ['wh', 'w'],
+  ['ee', 'i'],
+  ['oo', 'u'],
+  ['x', 'k s'],
+  ['q', 'k'],
+  ['j', 'ḍẓ'],
+  ['c', ''],
+  ['y', ''],
+]
+
+// height, backness, and rounding
+const vowelFeatures: Record<string, [number, number, number]> = {
+  i: [3, 0, 0],
+  y: [3, 0, 1],
+  u: [3, 2, 1],
+  e: [2, 0, 0],
+  ö: [2, 0, 1],
+  o: [2, 2, 1],
+  ë: [1.5, 1, 0],
+  ä: [1, 0, 0],
+  a: [0, 1, 0],
+}
+
+// tone numbers and stress marks
+const suprasegmental = /^[0-9ˈˌ]$/
+
+const stressPlacementPicker = pickMeToo<StressPlacement>([
+  ['initial', 92],
+  ['penultimate', 110],
+  ['final', 51],
+  ['weight', 219],
+  ['lexical', 60],
+])
+
+function pickStress(p: Phonology, rng: Rng, h: Hmm) {
+  const s = p.stress ?? {}
+  p.stress = s
+  // tone languages often do without stress
+  s.placement ??= p.tone?.inventory?.length && h.maybe(0.7) ? 'none' : stressPlacementPicker(rng)()
+  s.marking ??= 'none'
+}
+
+function pickAllophony(p: Phonology, h: Hmm) {
+  const a = p.allophony ?? {}
+  p.allophony = a
+  a.intervocalicVoicing ??= h.maybe(0.3)
+  a.finalDevoicing ??= h.maybe(0.25)
+  a.palatalization ??= h.maybe(0.3)
+  // reduction needs a stressed syllable to contrast with
+  a.vowelReduction ??= p.stress!.placement !== 'none' && h.maybe(0.3)
+}
+
+const frontVowels = ['i', 'e', 'y', 'ö', 'ä']
+
+const palatalizedPlaces: PlaceOfArticulation[] = ['aveolar', 'velar']
+
+const palatalizedManners: Manner[] = ['stops', 'fricatives', 'affricates', 'nasals', 'lateralApproximants']
+
+const harmonyFeaturePicker = pickMeToo<HarmonyFeature>([
+  ['none', 80],
+  ['backness', 15],
+  ['rounding', 5],
+])
+
+// for each vowel of the first harmony class, its preferred alternants in the second class
+const harmonicCounterparts: Record<Exclude<HarmonyFeature, 'none'>, [string, string[]][]> = {
+  backness: [
+    ['a', ['ä', 'e', 'ë']],
+    ['o', ['ö', 'e']],
+    ['u', ['y', 'i']],
+  ],
+  rounding: [
+    ['i', ['y', 'u']],
+    ['e', ['ö', 'o']],
+    ['ë', ['ö', 'o']],
+    ['ä', ['ö', 'o']],
+  ],
+}
+
+// how common vowels are across languages relative to /a/
+const vowelMarkedness: Record<string, number> = { a: 1, i: 0.9, u: 0.8, e: 0.6, o: 0.6, ë: 0.3, y: 0.2, ö: 0.2, ä: 0.2 }
+
+// the weight of a phoneme, recording one drawn from its markedness if none was supplied
+function weigh(p: Phonology, phoneme: string, markedness: number, h: Hmm): number {
+  const f = (p.frequencies ??= {})
+  f[phoneme] ??= Math.max(Math.round(markedness * h.fromRange(0.75, 1.25) * 1000) / 1000, 0.001)
+  return f[phoneme]
+}
+
+// the individual vowel letters from which the vocalic nuclei are composed
+function vowelLetters(p: Phonology): Set<string> {
+  const letters: Set<string> = new Set()
+  for (const nucleus of (p.vowels?.vocalicSyllableNuclei ?? []).concat(p.vowels?.diphthongs ?? [])) {
+    for (const c of nucleus) letters.add(c)
+  }
+  return letters
+}
+
+function pickVowelHarmony(p: Phonology, rng: Rng): (s: string, trigger?: string) => string {
+  const vh = p.vowelHarmony ?? {}
+  p.vowelHarmony = vh
+  const letters = vowelLetters(p)
+  if (!vh.classes) {
+    vh.feature ??= harmonyFeaturePicker(rng)()
+    if (vh.feature !== 'none') {
+      const classes: string[][] = [[], []]
+      for (const [v, counterparts] of harmonicCounterparts[vh.feature]) {
+        if (!letters.has(v)) continue
+        const counterpart = counterparts.find((c) => letters.has(c))
+        if (counterpart === undefined) continue
+        classes[0].push(v)
+        classes[1].push(counterpart)
       }
-    } else {
-      for (const [v] of vowelFrequencies) {
-        if (v.length === 1) combinations++
+      if (classes[0].length) {
+        vh.classes = classes
+      } else {
+        // this inventory has no harmonic pairs
+        vh.feature = 'none'
       }
-      picker = () => {
-        const s = nucleusPicker()
-        if (s.length == 2 || rng() > longVowelProbability) return s
-        return s + s
+    }
+  }
+  const classes = vh.classes
+  if (!classes) return (s: string) => s
+  vh.neutral ??= Array.from(letters).filter((v) => !classes.some((vowels) => vowels.includes(v)))
+  return harmonizer(classes, vh.neutral)
+}
+
+function harmonizer(classes: string[][], neutral: string[]): (s: string, trigger?: string) => string {
+  const neutrals = new Set(neutral)
+  const classIndex: Map<string, number> = new Map()
+  const position: Map<string, number> = new Map()
+  classes.forEach((vowels, i) =>
+    vowels.forEach((v, j) => {
+      if (neutrals.has(v) || classIndex.has(v)) return
+      classIndex.set(v, i)
+      position.set(v, j)
+    }),
+  )
+  return (s: string, trigger: string = s) => {
+    let target: string[] | undefined
+    for (const c of trigger) {
+      const i = classIndex.get(c)
+      if (i !== undefined) {
+        target = classes[i]
+        break
       }
     }
-  } else {
-    picker = nucleusPicker
+    if (!target) return s
+    let harmonized = ''
+    for (const c of s) {
+      const j = position.get(c)
+      harmonized += j === undefined ? c : target[j]
+    }
+    return harmonized
   }
-  return [picker, vowelFrequencies.length]
 }
 
-type PlaceOfArticulation = 'labial' | 'dental' | 'aveolar' | 'palatal' | 'velar' | 'uvular' | 'glottal'
+type PlaceOfArticulation = 'labial' | 'dental' | 'aveolar' | 'retroflex' | 'palatal' | 'velar' | 'uvular' | 'glottal'
 
 const placeOfArticulationPicker: (rng: Rng) => () => PlaceOfArticulation = pickMeToo([
   ['labial', 1500],
   ['dental', 600],
   ['aveolar', 2000],
+  ['retroflex', 400],
   ['palatal', 500],
   ['velar', 1500],
   ['uvular', 300],
@@ -254,13 +1117,30 @@ const placeOfArticulationCountPicker = pickMeToo([
   [5, 50],
   [6, 3],
   [7, 1],
+  [8, 1],
 ])
 
-const consonants: Record<PlaceOfArticulation, any> = {
+// obstruents come in series distinguished by voicing mechanism
+type Obstruent = 'stops' | 'fricatives' | 'affricates' | 'lateralFricatives' | 'clicks'
+
+// sonorants are voiced
+type Sonorant = 'nasals' | 'approximants' | 'lateralApproximants' | 'trills' | 'taps'
+
+type Manner = Obstruent | Sonorant
+
+const obstruents: Obstruent[] = ['stops', 'fricatives', 'affricates', 'lateralFricatives', 'clicks']
+
+const sonorants: Sonorant[] = ['nasals', 'approximants', 'lateralApproximants', 'trills', 'taps']
+
+type Place = Partial<Record<Obstruent, Partial<Record<Voicing, string[]>>> & Record<Sonorant, string[]>>
+
+const consonants: Record<PlaceOfArticulation, Place> = {
   labial: {
     stops: {
       voiced: ['b'],
       unvoiced: ['p'],
+      aspirated: ['ph'],
+      ejective: ["p'"],
     },
     fricatives: {
       voiced: ['v'],
@@ -270,18 +1150,28 @@ const consonants: Record<PlaceOfArticulation, any> = {
       voiced: ['bv'],
       unvoiced: ['pf'],
     },
+    clicks: {
+      voiced: ['gʘ'],
+      unvoiced: ['ʘ'],
+      aspirated: ['ʘh'],
+    },
     nasals: ['m'],
-    approximant: ['w'],
+    approximants: ['w'],
   },
   dental: {
     fricatives: {
-      voiced: ['θ'],
-      unvoiced: ['dh'],
+      voiced: ['dh'],
+      unvoiced: ['θ'],
     },
     affricates: {
       voiced: ['ddh'],
       unvoiced: ['tθ'],
     },
+    clicks: {
+      voiced: ['gǀ'],
+      unvoiced: ['ǀ'],
+      aspirated: ['ǀh'],
+    },
   },
   aveolar: {
     stops: {
@@ -292,24 +1182,66 @@ const consonants: Record<PlaceOfArticulation, any> = {
     },
     fricatives: {
       voiced: ['z'],
-      unvoiced: ['s', 'll'],
+      unvoiced: ['s'],
     },
     affricates: {
       voiced: ['dz'],
       unvoiced: ['ts', 'tll'],
       ejective: ["ts'", "tll'"],
     },
+    lateralFricatives: {
+      voiced: ['ɮ'],
+      unvoiced: ['ll'],
+    },
+    clicks: {
+      voiced: ['gǃ', 'gǁ'],
+      unvoiced: ['ǃ', 'ǁ'],
+      aspirated: ['ǃh', 'ǁh'],
+    },
     nasals: ['n'],
-    approximant: ['r', 'l'],
+    approximants: ['r'],
+    lateralApproximants: ['l'],
+    trills: ['rr'],
+    taps: ['ɾ'],
+  },
+  retroflex: {
+    stops: {
+      voiced: ['ḍ'],
+      unvoiced: ['ṭ'],
+      aspirated: ['ṭh'],
+    },
+    fricatives: {
+      voiced: ['ẓ'],
+      unvoiced: ['ṣ'],
+    },
+    affricates: {
+      voiced: ['ḍẓ'],
+      unvoiced: ['ṭṣ'],
+    },
+    nasals: ['ṇ'],
+    approximants: ['ɻ'],
+    lateralApproximants: ['ḷ'],
+    taps: ['ṛ'],
   },
   palatal: {
     stops: {
+      voiced: ['ɟ'],
       unvoiced: ['c'],
       aspirated: ['ch'],
       ejective: ["c'"],
     },
+    fricatives: {
+      voiced: ['ʝ'],
+      unvoiced: ['ç'],
+    },
+    clicks: {
+      voiced: ['gǂ'],
+      unvoiced: ['ǂ'],
+      aspirated: ['ǂh'],
+    },
     nasals: ['ñ'],
-    approximant: ['j'],
+    approximants: ['j'],
+    lateralApproximants: ['ʎ'],
   },
   velar: {
     stops: {
@@ -319,11 +1251,11 @@ const consonants: Record<PlaceOfArticulation, any> = {
       ejective: ["k'"],
     },
     fricatives: {
-      voiced: ['x'],
-      unvoiced: ['gh'],
+      voiced: ['gh'],
+      unvoiced: ['x'],
     },
     affricates: {
-      voiced: ['kx'],
+      unvoiced: ['kx'],
       ejective: ["kx'"],
     },
     nasals: ['ng'],
@@ -331,7 +1263,13 @@ const consonants: Record<PlaceOfArticulation, any> = {
   uvular: {
     stops: {
       unvoiced: ['q'],
+      ejective: ["q'"],
+    },
+    fricatives: {
+      voiced: ['ʁ'],
+      unvoiced: ['χ'],
     },
+    trills: ['ʀ'],
   },
   glottal: {
     stops: {
@@ -341,10 +1279,150 @@ const consonants: Record<PlaceOfArticulation, any> = {
       unvoiced: ['h'],
     },
   },
-} as const
+}
+
+// the IPA for every consonant whose spelling differs from it
+export const consonantIPA: Record<string, string> = {
+  ph: 'pʰ',
+  "p'": 'pʼ',
+  bv: 'b͡v',
+  pf: 'p͡f',
+  gʘ: 'ᶢʘ',
+  ʘh: 'ʘʰ',
+  dh: 'ð',
+  ddh: 'd͡ð',
+  tθ: 't͡θ',
+  gǀ: 'ᶢǀ',
+  ǀh: 'ǀʰ',
+  th: 'tʰ',
+  "t'": 'tʼ',
+  dz: 'd͡z',
+  ts: 't͡s',
+  tll: 't͡ɬ',
+  "ts'": 't͡sʼ',
+  "tll'": 't͡ɬʼ',
+  ll: 'ɬ',
+  gǃ: 'ᶢǃ',
+  gǁ: 'ᶢǁ',
+  ǃh: 'ǃʰ',
+  ǁh: 'ǁʰ',
+  r: 'ɹ',
+  rr: 'r',
+  ḍ: 'ɖ',
+  ṭ: 'ʈ',
+  ṭh: 'ʈʰ',
+  ẓ: 'ʐ',
+  ṣ: 'ʂ',
+  ḍẓ: 'ɖ͡ʐ',
+  ṭṣ: 'ʈ͡ʂ',
+  ṇ: 'ɳ',
+  ḷ: 'ɭ',
+  ṛ: 'ɽ',
+  ch: 'cʰ',
+  "c'": 'cʼ',
+  gǂ: 'ᶢǂ',
+  ǂh: 'ǂʰ',
+  ñ: 'ɲ',
+  g: 'ɡ',
+  kh: 'kʰ',
+  "k'": 'kʼ',
+  gh: 'ɣ',
+  kx: 'k͡x',
+  "kx'": 'k͡xʼ',
+  ng: 'ŋ',
+  "q'": 'qʼ',
+  "'": 'ʔ',
+}
 
 type Voicing = 'voiced' | 'unvoiced' | 'aspirated' | 'ejective'
 
+export type ConsonantFeatures = { place: PlaceOfArticulation; manner: Manner; voicing: Voicing }
+
+// the places of articulation from the front of the mouth to the back
+const places = Object.keys(consonants) as PlaceOfArticulation[]
+
+// the features of every consonant in the table above
+const consonantFeatures: Map<string, ConsonantFeatures> = new Map()
+for (const place of Object.keys(consonants) as PlaceOfArticulation[]) {
+  const table = consonants[place]
+  for (const manner of obstruents) {
+    const series = table[manner] ?? {}
+    for (const voicing of Object.keys(series) as Voicing[]) {
+      for (const c of series[voicing]!) consonantFeatures.set(c, { place, manner, voicing })
+    }
+  }
+  for (const manner of sonorants) {
+    for (const c of table[manner] ?? []) consonantFeatures.set(c, { place, manner, voicing: 'voiced' })
+  }
+}
+
+/**
+ * The default spellings of every consonant a language may have.
+ */
+export const allConsonants: string[] = Array.from(consonantFeatures.keys())
+
+// the consonant at the same place and of the same manner with another voicing, if there is one
+function revoice(consonant: string, voicing: Voicing): string | undefined {
+  const f = consonantFeatures.get(consonant)
+  if (!f || !['stops', 'fricatives', 'affricates'].includes(f.manner)) return undefined
+  const series = consonants[f.place][f.manner as Obstruent]!
+  return series[voicing]?.[series[f.voicing]!.indexOf(consonant)]
+}
+
+// how common consonants are across languages by their features
+const placeMarkedness: Record<PlaceOfArticulation, number> = {
+  labial: 0.9,
+  dental: 0.5,
+  aveolar: 1,
+  retroflex: 0.3,
+  palatal: 0.4,
+  velar: 0.8,
+  uvular: 0.3,
+  glottal: 0.4,
+}
+
+const mannerMarkedness: Record<Manner, number> = {
+  stops: 1,
+  nasals: 1,
+  fricatives: 0.6,
+  approximants: 0.6,
+  lateralApproximants: 0.6,
+  taps: 0.4,
+  trills: 0.3,
+  affricates: 0.3,
+  lateralFricatives: 0.1,
+  clicks: 0.05,
+}
+
+const voicingMarkedness: Record<Voicing, number> = {
+  unvoiced: 1,
+  voiced: 0.7,
+  aspirated: 0.4,
+  ejective: 0.2,
+}
+
+function consonantMarkedness(c: string): number {
+  const f = consonantFeatures.get(c)
+  // we know nothing about consonants the user made up
+  if (!f) return 0.5
+  // sonorants are only voiced, so voicing doesn't make them rarer
+  const voicing = obstruents.includes(f.manner as Obstruent) ? voicingMarkedness[f.voicing] : 1
+  return placeMarkedness[f.place] * mannerMarkedness[f.manner] * voicing
+}
+
+const sonority: Record<Manner, number> = {
+  stops: 1,
+  clicks: 1,
+  affricates: 2,
+  fricatives: 3,
+  lateralFricatives: 3,
+  nasals: 4,
+  taps: 5,
+  trills: 5,
+  lateralApproximants: 5,
+  approximants: 6,
+}
+
 const voicingMechanismPicker: (rng: Rng) => () => Voicing = pickMeToo([
   ['voiced', 1500],
   ['unvoiced', 2000],
@@ -359,7 +1437,7 @@ const voicingMechanismCountPicker = pickMeToo([
   [4, 2],
 ])
 
-function pickConsonants(p: Phonology, rng: () => number, h: Hmm): [phonemeGenerator, phonemeGenerator, number, number] {
+function pickConsonants(p: Phonology, rng: () => number, h: Hmm): [Margin, Margin] {
   const c = p.consonants ?? {}
   p.consonants = c
   if (c.placesOfArticulation === undefined || c.placesOfArticulation.length === 0) {
@@ -382,120 +1460,85 @@ function pickConsonants(p: Phonology, rng: () => number, h: Hmm): [phonemeGenera
   c.mayHaveAffricates ??= h.maybe(0.2)
   c.mayHaveNasals ??= h.maybe(0.8)
   c.mayHaveApproximants ??= h.maybe(0.8)
-  const stopsUndefined = !c.stops
+  c.mayHaveLateralFricatives ??= h.maybe(0.1)
+  c.mayHaveLateralApproximants ??= h.maybe(0.8)
+  c.mayHaveTrills ??= h.maybe(0.4)
+  c.mayHaveTaps ??= h.maybe(0.3)
+  c.mayHaveClicks ??= h.maybe(0.02)
+  // you always get some stops, if they are available; you may get the rest
+  const mayHave: Record<Manner, boolean> = {
+    stops: true,
+    fricatives: c.mayHaveFricatives,
+    affricates: c.mayHaveAffricates,
+    nasals: c.mayHaveNasals,
+    approximants: c.mayHaveApproximants,
+    lateralFricatives: c.mayHaveLateralFricatives,
+    lateralApproximants: c.mayHaveLateralApproximants,
+    trills: c.mayHaveTrills,
+    taps: c.mayHaveTaps,
+    clicks: c.mayHaveClicks,
+  }
+  // only pick the manners not supplied in the configuration
+  const toPick = (obstruents as Manner[]).concat(sonorants).filter((manner) => !c[manner] && mayHave[manner])
   c.stops ??= []
-  const fricativesUndefined = !c.fricatives
   c.fricatives ??= []
-  const affricatesUndefined = !c.affricates
   c.affricates ??= []
-  const nasalsUndefined = !c.nasals
+  c.lateralFricatives ??= []
+  c.clicks ??= []
   c.nasals ??= []
-  const approximantsUndefined = !c.approximants
   c.approximants ??= []
+  c.lateralApproximants ??= []
+  c.trills ??= []
+  c.taps ??= []
   for (const type of c.placesOfArticulation!) {
     const place = consonants[type]
-    // you always get some stops, if they are available
-    if (stopsUndefined && place.stops) {
-      const stops = c.stops
-      for (const vm of c.voicingMechanisms) {
-        for (let i = 0, l = place.stops[vm]?.length ?? 0; i < l; i++) {
-          if (i) {
-            if (h.maybe(1 / 2 ** i)) {
-              stops.push(place.stops[vm][i])
-            }
-          } else {
-            stops.push(place.stops[vm][0])
-          }
-        }
-      }
+    for (const manner of obstruents) {
+      if (!toPick.includes(manner)) continue
+      for (const vm of c.voicingMechanisms) pickSeries(h, place[manner]?.[vm] ?? [], c[manner]!)
     }
-    // you may get the rest
-    if (c.mayHaveFricatives && fricativesUndefined && place.fricatives) {
-      const fricatives = c.fricatives
-      for (const vm of c.voicingMechanisms) {
-        for (let i = 0, l = place.fricatives[vm]?.length ?? 0; i < l; i++) {
-          if (i) {
-            if (h.maybe(1 / 2 ** i)) {
-              fricatives.push(place.fricatives[vm][i])
-            }
-          } else {
-            fricatives.push(place.fricatives[vm][0])
-          }
-        }
-      }
-    }
-    if (c.mayHaveAffricates && affricatesUndefined && place.affricates) {
-      const affricates = c.affricates
-      for (const vm of c.voicingMechanisms) {
-        for (let i = 0, l = place.affricates[vm]?.length ?? 0; i < l; i++) {
-          if (i) {
-            if (h.maybe(1 / 2 ** i)) {
-              affricates.push(place.affricates[vm][i])
-            }
-          } else {
-            affricates.push(place.affricates[vm][0])
-          }
-        }
-      }
-    }
-    if (c.mayHaveNasals && nasalsUndefined && place.nasals) {
-      const nasals = c.nasals
-      for (const vm of c.voicingMechanisms) {
-        for (let i = 0, l = place.nasals[vm]?.length ?? 0; i < l; i++) {
-          if (i) {
-            if (h.maybe(1 / 2 ** i)) {
-              nasals.push(place.nasals[vm][i])
-            }
-          } else {
-            nasals.push(place.nasals[vm][0])
-          }
-        }
-      }
-    }
-    if (c.mayHaveApproximants && approximantsUndefined && place.approximants) {
-      const approximants = c.approximants
-      for (const vm of c.voicingMechanisms) {
-        for (let i = 0, l = place.approximants[vm]?.length ?? 0; i < l; i++) {
-          if (i) {
-            if (h.maybe(1 / 2 ** i)) {
-              approximants.push(place.approximants[vm][i])
-            }
-          } else {
-            approximants.push(place.approximants[vm][0])
-          }
-        }
-      }
+    for (const manner of sonorants) {
+      if (toPick.includes(manner)) pickSeries(h, place[manner] ?? [], c[manner]!)
     }
   }
-  p.closedSyllables ??= h.maybe(0.8)
+  // for the purposes of clustering, all the non-nasal sonorants
+  const liquids = c.approximants.concat(c.lateralApproximants, c.trills, c.taps)
+  const pt = p.phonotactics ?? {}
+  p.phonotactics = pt
+  pt.sonoritySequencing ??= h.maybe(0.9)
+  pt.minimumSonorityDistance ??= 1
+  pt.placeAssimilation ??= h.maybe(0.9)
+  // explicitly allowed clusters are always possible
+  const onsetsAllowed = Boolean(pt.allowedOnsets?.length)
+  const codasAllowed = Boolean(pt.allowedCodas?.length)
+  // syllable templates, if any, determine whether we need codas and clusters
+  const shapes = p.syllableTemplates?.map(([t]) => parseSyllableTemplate(t))
+  p.closedSyllables ??= codasAllowed || (shapes ? shapes.some(([, c]) => c > 0) : h.maybe(0.8))
   p.consonantClusters ??= {}
-  p.consonantClusters.initial ??= h.maybe(0.6)
-  p.consonantClusters.final ??= p.consonantClusters.initial ? h.maybe(0.8) : h.maybe(0.2)
-  const clustersPossible = Boolean(c.fricatives.length || c.nasals.length || c.approximants.length)
-  p.consonantClusters.initial &&= clustersPossible
-  p.consonantClusters.final &&= clustersPossible && p.closedSyllables
-  const possibleClusters: string[] = []
-  const simpleConsonants = c.stops.concat(c.nasals).concat(c.affricates).concat(c.fricatives).concat(c.approximants)
-  let initialClusterFrequencies: [string, number][] = []
-  let finalClusterFrequencies: [string, number][] = []
+  p.consonantClusters.initial ??= onsetsAllowed || (shapes ? shapes.some(([o]) => o > 1) : h.maybe(0.6))
+  p.consonantClusters.final ??=
+    codasAllowed || (shapes ? shapes.some(([, c]) => c > 1) : p.consonantClusters.initial ? h.maybe(0.8) : h.maybe(0.2))
+  const clustersPossible = Boolean(c.fricatives.length || c.nasals.length || liquids.length)
+  p.consonantClusters.initial &&= clustersPossible || onsetsAllowed
+  p.consonantClusters.final &&= (clustersPossible || codasAllowed) && p.closedSyllables
+  const simpleConsonants = c.stops.concat(c.nasals, c.affricates, c.fricatives, c.lateralFricatives, liquids, c.clicks)
+  let initialClusterFrequencies: [string[], number][] = []
+  let finalClusterFrequencies: [string[], number][] = []
   if (p.consonantClusters.initial) {
     if (c.fricatives.length) {
       initialClusterFrequencies = initialClusterFrequencies.concat(clusterFrequencies(h, c.fricatives, c.stops))
-      if (c.approximants.length)
+      if (liquids.length)
         initialClusterFrequencies = initialClusterFrequencies.concat(
-          clusterFrequencies(h, c.fricatives, c.stops, c.approximants),
+          clusterFrequencies(h, c.fricatives, c.stops, liquids),
         )
       if (c.nasals.length)
         initialClusterFrequencies = initialClusterFrequencies.concat(clusterFrequencies(h, c.fricatives, c.nasals))
       if (c.affricates.length)
         initialClusterFrequencies = initialClusterFrequencies.concat(clusterFrequencies(h, c.fricatives, c.affricates))
     }
-    if (c.approximants.length) {
-      initialClusterFrequencies = initialClusterFrequencies.concat(clusterFrequencies(h, c.stops, c.approximants))
+    if (liquids.length) {
+      initialClusterFrequencies = initialClusterFrequencies.concat(clusterFrequencies(h, c.stops, liquids))
       if (c.affricates.length)
-        initialClusterFrequencies = initialClusterFrequencies.concat(
-          clusterFrequencies(h, c.affricates, c.approximants),
-        )
+        initialClusterFrequencies = initialClusterFrequencies.concat(clusterFrequencies(h, c.affricates, liquids))
     }
   }
   if (p.consonantClusters.final) {
@@ -505,68 +1548,193 @@ function pickConsonants(p: Phonology, rng: () => number, h: Hmm): [phonemeGenera
         finalClusterFrequencies = finalClusterFrequencies.concat(clusterFrequencies(h, c.nasals, c.stops, c.fricatives))
       }
     }
-    if (c.approximants.length) {
-      finalClusterFrequencies = finalClusterFrequencies.concat(clusterFrequencies(h, c.approximants, c.stops))
+    if (liquids.length) {
+      finalClusterFrequencies = finalClusterFrequencies.concat(clusterFrequencies(h, liquids, c.stops))
     }
   }
+  if (p.consonantClusters.initial) {
+    initialClusterFrequencies = constrainClusters(h, initialClusterFrequencies, 'onset', pt, simpleConsonants)
+    p.consonantClusters.initial = initialClusterFrequencies.length > 0
+  }
+  if (p.consonantClusters.final) {
+    finalClusterFrequencies = constrainClusters(h, finalClusterFrequencies, 'coda', pt, simpleConsonants)
+    p.consonantClusters.final = finalClusterFrequencies.length > 0
+  }
+  const frequencies: Record<string, number> = {}
+  for (const c of simpleConsonants) frequencies[c] = weigh(p, c, consonantMarkedness(c), h)
   let onset: MarginalParts = {
     simpleConsonants: compact(simpleConsonants.map((c) => (h.maybe(0.95) ? c : null))),
     clusters: initialClusterFrequencies,
+    frequencies,
   }
   let coda: MarginalParts = {
-    simpleConsonants: compact(simpleConsonants.map((c) => (h.maybe(0.95) ? c : null))),
+    simpleConsonants: compact(simpleConsonants.map((c) => (h.maybe(0.95) && p.closedSyllables ? c : null))),
     clusters: finalClusterFrequencies,
+    frequencies,
   }
-  return [
-    consonantPicker(onset, h.fromRange(0, 0.3), h),
-    consonantPicker(coda, h.fromRange(0.2, 0.9), h),
-    marginalCombinations(onset),
-    marginalCombinations(coda),
-  ]
+  return [marginPicker(onset, h.fromRange(0, 0.3), h), marginPicker(coda, h.fromRange(0.2, 0.9), h)]
 }
 
-function clusterFrequencies(h: Hmm, ...parts: string[][]): [string, number][] {
-  return combinations(parts).map((ar) => [ar.join(''), h.n()])
+// adds the first member of a series of consonants and maybe some of the rest
+function pickSeries(h: Hmm, series: string[], consonants: string[]) {
+  for (let i = 0; i < series.length; i++) {
+    if (i === 0 || h.maybe(1 / 2 ** i)) consonants.push(series[i])
+  }
 }
 
-function marginalCombinations(mp: MarginalParts) {
-  return mp.simpleConsonants.length + mp.clusters.length + 1
+function clusterFrequencies(h: Hmm, ...parts: string[][]): [string[], number][] {
+  return combinations(parts).map((ar) => [ar, h.n()])
 }
 
-type MarginalParts = {
-  simpleConsonants: string[]
-  clusters: [string, number][]
+// filters and reweights clusters according to the phonotactic constraints
+function constrainClusters(
+  h: Hmm,
+  clusters: [string[], number][],
+  position: 'onset' | 'coda',
+  pt: Phonotactics,
+  inventory: string[],
+): [string[], number][] {
+  const forbidden = new Set(pt.forbiddenClusters ?? [])
+  const constrained: [string[], number][] = []
+  for (const [cluster, n] of clusters) {
+    if (forbidden.has(cluster.join(''))) continue
+    const score = phonotacticScore(cluster, position, pt)
+    if (score > 0) constrained.push([cluster, n * score])
+  }
+  for (const cluster of (position === 'onset' ? pt.allowedOnsets : pt.allowedCodas) ?? []) {
+    if (!forbidden.has(cluster)) constrained.push([segmentCluster(cluster, inventory), h.n()])
+  }
+  return constrained
 }
 
-function consonantPicker(parts: MarginalParts, probabilityAbsent: number, h: Hmm): phonemeGenerator {
-  if (parts.simpleConsonants.length === 0) return () => ''
-  const simpleFrequencies: [string, number][] = []
-  const clusterFrequencies: [string, number][] = uniqBy(parts.clusters, ([k]) => k)
-  for (const c of uniqBy(parts.simpleConsonants, (v) => v)) {
-    simpleFrequencies.push([c, h.n()])
+// 0 if the cluster is illegal; otherwise larger the more natural the cluster is
+function phonotacticScore(cluster: string[], position: 'onset' | 'coda', pt: Phonotactics): number {
+  let score = 1
+  for (let i = 1; i < cluster.length; i++) {
+    const a = consonantFeatures.get(cluster[i - 1])
+    const b = consonantFeatures.get(cluster[i])
+    // we know nothing about consonants the user made up
+    if (!a || !b) continue
+    if (pt.placeAssimilation && a.manner === 'nasals' && obstruents.includes(b.manner as Obstruent)) {
+      if (a.place !== b.place) return 0
+    }
+    if (pt.sonoritySequencing) {
+      const rise = sonority[b.manner] - sonority[a.manner]
+      const slope = position === 'onset' ? rise : -rise
+      if (slope < pt.minimumSonorityDistance!) return 0
+      score *= slope
+    }
   }
-  let simpleFrequency = 0
-  for (const [, n] of simpleFrequencies) simpleFrequency += n
-  if (clusterFrequencies.length === 0) {
-    if (probabilityAbsent === 0) return pickMe(simpleFrequencies, h.rng)
-    // add empty string output for absent consonant
-    const a = (simpleFrequency * probabilityAbsent) / (1 - probabilityAbsent)
-    simpleFrequencies.push(['', a])
-    return pickMe(simpleFrequencies, h.rng)
+  return score
+}
+
+// breaks a cluster into the longest consonants in the inventory that compose it
+function segmentCluster(cluster: string, inventory: string[]): string[] {
+  const byLength = inventory.slice().sort((a, b) => b.length - a.length)
+  const segments: string[] = []
+  let i = 0
+  while (i < cluster.length) {
+    const c = byLength.find((c) => cluster.startsWith(c, i)) ?? cluster.charAt(i)
+    segments.push(c)
+    i += c.length
   }
+  return segments
+}
+
+type MarginalParts = {
+  simpleConsonants: string[]
+  clusters: [string[], number][]
+  frequencies: Record<string, number>
+}
+
+// the consonants that may appear at one edge of a syllable, organized by the number of consonants
+type Margin = {
+  // pickers[n] picks a margin of n consonants; a language may lack margins of some lengths
+  pickers: (phonemeGenerator | undefined)[]
+  // the number of distinct margins of each length
+  counts: number[]
+  // how often margins of each length occur absent syllable templates
+  shares: number[]
+  // every margin that may occur
+  forms: Set<string>
+}
+
+function marginPicker(parts: MarginalParts, probabilityAbsent: number, h: Hmm): Margin {
+  const margin: Margin = { pickers: [() => ''], counts: [1], shares: [1], forms: new Set(['']) }
+  const simpleConsonants = uniqBy(parts.simpleConsonants, (v) => v)
+  if (simpleConsonants.length === 0) return margin
+  for (const c of simpleConsonants) margin.forms.add(c)
+  margin.pickers[1] = pickMe(
+    simpleConsonants.map((c) => [c, parts.frequencies[c]] as [string, number]),
+    h.rng,
+  )
+  margin.counts[1] = simpleConsonants.length
+  margin.shares = [probabilityAbsent, 1 - probabilityAbsent]
+  const clusters = uniqBy(parts.clusters, ([cluster]) => cluster.join('')).filter(([cluster]) => cluster.length > 1)
+  if (clusters.length === 0) return margin
 
   // make adjustments so consonant clusters are always less common
-  let clusterFrequency = 0
-  for (const [, n] of clusterFrequencies) clusterFrequency += n
   const fractionClusters = h.fromRange(0, 0.5) // at most they are half as frequent
-  const adjustment = (simpleFrequency * fractionClusters) / (clusterFrequency * (1 - fractionClusters))
-  for (const pair of clusterFrequencies) pair[1] *= adjustment
-  const frequencies: [string, number][] = simpleFrequencies.concat(clusterFrequencies)
-  if (probabilityAbsent === 0) return pickMe(frequencies, h.rng)
-  // add empty string for absent consonant
-  let frequency = 0
-  for (const [, n] of frequencies) frequency += n
-  const a = (frequency * probabilityAbsent) / (1 - probabilityAbsent)
-  frequencies.push(['', a])
-  return pickMe(frequencies, h.rng)
+  margin.shares[1] *= 1 - fractionClusters
+  let clusterFrequency = 0
+  const byLength: Map<number, [string, number][]> = new Map()
+  for (const [cluster, n] of clusters) {
+    clusterFrequency += n
+    const frequencies = byLength.get(cluster.length) ?? []
+    frequencies.push([cluster.join(''), n])
+    byLength.set(cluster.length, frequencies)
+    margin.forms.add(cluster.join(''))
+  }
+  byLength.forEach((frequencies, length) => {
+    let frequency = 0
+    for (const [, n] of frequencies) frequency += n
+    margin.pickers[length] = pickMe(frequencies, h.rng)
+    margin.counts[length] = frequencies.length
+    margin.shares[length] = ((1 - probabilityAbsent) * fractionClusters * frequency) / clusterFrequency
+  })
+  return margin
+}
+
+// converts a template such as CCVC into the lengths of its onset and coda
+function parseSyllableTemplate(template: string): [number, number] {
+  const match = /^(C*)V(C*)$/.exec(template)
+  if (!match) throw new Error(`invalid syllable template: ${template}`)
+  return [match[1].length, match[2].length]
+}
+
+// the longest margin available no longer than the length requested
+function availableLength(margin: Margin, length: number): number {
+  while (length > 0 && !margin.pickers[length]) length--
+  return length
+}
+
+// returns a picker of onset and coda lengths and the number of distinct margin combinations
+function pickSyllableTemplates(p: Phonology, onset: Margin, coda: Margin, rng: Rng): [() => [number, number], number] {
+  if (!p.syllableTemplates) {
+    const templates: [string, number][] = []
+    onset.shares.forEach((o, i) =>
+      coda.shares.forEach((c, j) => {
+        const n = Math.round(o * c * 1000) / 1000
+        if (n > 0) templates.push(['C'.repeat(i) + 'V' + 'C'.repeat(j), n])
+      }),
+    )
+    p.syllableTemplates = templates
+  }
+  // templates the language lacks the consonants for fall back to simpler shapes
+  const shapes: Map<string, [[number, number], number]> = new Map()
+  for (const [t, n] of p.syllableTemplates) {
+    let [o, c] = parseSyllableTemplate(t)
+    o = availableLength(onset, o)
+    c = availableLength(coda, c)
+    const key = `${o}:${c}`
+    const shape = shapes.get(key)
+    if (shape) {
+      shape[1] += n
+    } else {
+      shapes.set(key, [[o, c], n])
+    }
+  }
+  let combinations = 0
+  shapes.forEach(([[o, c]]) => (combinations += onset.counts[o] * coda.counts[c]))
+  return [pickMe(Array.from(shapes.values()), rng), combinations]
 }
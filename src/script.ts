@@ -0,0 +1,698 @@
+import { byWord, makeSpeller, Orthography, Speller } from './orthography'
+import { ConsonantFeatures, PhonologyEngine } from './phonology'
+import { assertNever, isCombiningMark } from './util'
+
+/**
+ * The writing system a language is rendered in. The alphabets respell each phoneme in the letters
+ * of a national orthography, borrowing letters from minority languages where the national one has
+ * none; 'hangul' gathers the phonemes of each syllable into a block; the abjads, 'hebrew' and
+ * 'arabic', write consonants and long vowels from right to left; and 'invented' is the language's
+ * own {@link WritingSystem}. Only 'latin' uses the language's orthography.
+ *
+ * No script distinguishes every phoneme. Hangul and the abjads, in particular, write neither tone
+ * nor stress, so text written in them can only be read back approximately.
+ */
+export type Script = 'latin' | 'cyrillic' | 'greek' | 'georgian' | 'hangul' | Abjad | 'invented'
+
+type Alphabet = 'cyrillic' | 'greek' | 'georgian'
+
+type Abjad = 'hebrew' | 'arabic'
+
+// the letters for each phoneme
+const alphabets: Record<Alphabet, Record<string, string>> = {
+  // Serbian, with Kazakh, Bashkir, and other additions
+  cyrillic: {
+    a: 'а',
+    e: 'е',
+    i: 'и',
+    o: 'о',
+    u: 'у',
+    y: 'ү',
+    ö: 'ө',
+    ë: 'ә',
+    ä: 'ӕ',
+    b: 'б',
+    p: 'п',
+    v: 'в',
+    f: 'ф',
+    m: 'м',
+    w: 'ў',
+    θ: 'ҫ',
+    dh: 'ҙ',
+    t: 'т',
+    d: 'д',
+    s: 'с',
+    z: 'з',
+    ts: 'ц',
+    dz: 'ѕ',
+    ddh: 'дҙ',
+    ll: 'ԓ',
+    ɮ: 'ӆ',
+    tll: 'тԓ',
+    "tll'": 'тԓʼ',
+    n: 'н',
+    l: 'л',
+    r: 'р',
+    ɾ: 'р',
+    ɻ: 'р',
+    ṣ: 'ш',
+    ẓ: 'ж',
+    ṭṣ: 'ч',
+    ḍẓ: 'џ',
+    c: 'ћ',
+    ɟ: 'ђ',
+    ç: 'щ',
+    ʝ: 'ӂ',
+    j: 'ј',
+    ñ: 'њ',
+    ʎ: 'љ',
+    k: 'к',
+    g: 'г',
+    x: 'х',
+    gh: 'ғ',
+    ng: 'ң',
+    q: 'қ',
+    χ: 'ҳ',
+    ʁ: 'ғ',
+    ʀ: 'р',
+    h: 'һ',
+    "'": 'ʼ',
+  },
+  // classical values, with the archaic and Bactrian letters
+  greek: {
+    a: 'α',
+    e: 'ε',
+    i: 'ι',
+    o: 'ο',
+    u: 'ου',
+    y: 'υ',
+    ö: 'ω',
+    ë: 'η',
+    ä: 'ᾳ',
+    b: 'β',
+    p: 'π',
+    ph: 'φ',
+    v: 'ϐ',
+    f: 'φ',
+    m: 'μ',
+    w: 'ϝ',
+    θ: 'ϑ',
+    dh: 'δ',
+    t: 'τ',
+    th: 'θ',
+    d: 'δ',
+    s: 'σ',
+    z: 'ζ',
+    ddh: 'δδ',
+    ll: 'λͱ',
+    ɮ: 'δλ',
+    tll: 'τλͱ',
+    "tll'": 'τλͱʼ',
+    n: 'ν',
+    l: 'λ',
+    r: 'ρ',
+    ɾ: 'ρ',
+    ɻ: 'ρ',
+    ṣ: 'ϸ',
+    c: 'κϳ',
+    ɟ: 'γϳ',
+    ç: 'χϳ',
+    ʝ: 'γϳ',
+    j: 'ϳ',
+    ñ: 'νϳ',
+    ʎ: 'λϳ',
+    k: 'κ',
+    kh: 'χ',
+    g: 'γ',
+    x: 'χ',
+    gh: 'γ',
+    ng: 'γγ',
+    q: 'ϙ',
+    χ: 'χ',
+    ʁ: 'γ',
+    ʀ: 'ρ',
+    h: 'ͱ',
+    "'": 'ʼ',
+  },
+  // Mkhedruli, with the archaic letters and those of Svan and Mingrelian
+  georgian: {
+    a: 'ა',
+    e: 'ე',
+    i: 'ი',
+    o: 'ო',
+    u: 'უ',
+    y: 'ჳ',
+    ö: 'ჵ',
+    ë: 'ჷ',
+    ä: 'ჱ',
+    b: 'ბ',
+    p: 'ფ',
+    ph: 'ფ',
+    "p'": 'პ',
+    v: 'ვ',
+    f: 'ჶ',
+    m: 'მ',
+    w: 'ვ',
+    θ: 'თ',
+    dh: 'დ',
+    ddh: 'დდ',
+    t: 'თ',
+    th: 'თ',
+    "t'": 'ტ',
+    d: 'დ',
+    s: 'ს',
+    z: 'ზ',
+    ts: 'ც',
+    "ts'": 'წ',
+    dz: 'ძ',
+    ll: 'ლჰ',
+    ɮ: 'დლ',
+    tll: 'თლ',
+    "tll'": 'ტლ',
+    n: 'ნ',
+    l: 'ლ',
+    r: 'რ',
+    ɾ: 'რ',
+    ɻ: 'რ',
+    ṣ: 'შ',
+    ẓ: 'ჟ',
+    ṭṣ: 'ჩ',
+    ḍẓ: 'ჯ',
+    c: 'ქჲ',
+    ch: 'ქჲ',
+    "c'": 'კჲ',
+    ɟ: 'გჲ',
+    ç: 'ხჲ',
+    ʝ: 'ღჲ',
+    j: 'ჲ',
+    ñ: 'ნჲ',
+    ʎ: 'ლჲ',
+    k: 'ქ',
+    kh: 'ქ',
+    "k'": 'კ',
+    g: 'გ',
+    x: 'ხ',
+    gh: 'ღ',
+    ng: 'ნგ',
+    q: 'ყ',
+    χ: 'ჴ',
+    ʁ: 'ღ',
+    ʀ: 'რ',
+    h: 'ჰ',
+    "'": 'ჸ',
+  },
+}
+
+// Greek sigma takes its final form at the end of a word
+const medialSigma = /σ(?![\u0370-\u03ff\u1f00-\u1fff])/g
+
+// the compatibility jamo in the order of the Unicode syllable block formula; a space stands for no final
+const initials = 'ㄱㄲㄴㄷㄸㄹㅁㅂㅃㅅㅆㅇㅈㅉㅊㅋㅌㅍㅎ'
+const medials = 'ㅏㅐㅑㅒㅓㅔㅕㅖㅗㅘㅙㅚㅛㅜㅝㅞㅟㅠㅡㅢㅣ'
+const finals = ' ㄱㄲㄳㄴㄵㄶㄷㄹㄺㄻㄼㄽㄾㄿㅀㅁㅂㅄㅅㅆㅇㅈㅊㅋㅌㅍㅎ'
+
+const vowelJamo: Record<string, string> = {
+  a: 'ㅏ',
+  e: 'ㅔ',
+  i: 'ㅣ',
+  o: 'ㅗ',
+  u: 'ㅜ',
+  y: 'ㅟ',
+  ö: 'ㅚ',
+  ë: 'ㅓ',
+  ä: 'ㅐ',
+}
+
+// the vowels a preceding glide combines with
+const glideJamo: Record<string, Record<string, string>> = {
+  j: { a: 'ㅑ', ä: 'ㅒ', ë: 'ㅕ', e: 'ㅖ', o: 'ㅛ', u: 'ㅠ' },
+  w: { a: 'ㅘ', ä: 'ㅙ', ë: 'ㅝ', e: 'ㅞ', i: 'ㅟ' },
+}
+
+// plain, aspirated, and tense obstruents by place of articulation
+const obstruentJamo: Record<ConsonantFeatures['place'], string> = {
+  labial: 'ㅂㅍㅃ',
+  dental: 'ㄷㅌㄸ',
+  aveolar: 'ㄷㅌㄸ',
+  retroflex: 'ㄷㅌㄸ',
+  palatal: 'ㅈㅊㅉ',
+  velar: 'ㄱㅋㄲ',
+  uvular: 'ㄱㅋㄲ',
+  glottal: 'ㅇㅇㅇ',
+}
+
+// the jamo for a consonant at the start of a syllable, following Korean loanword conventions
+function initialJamo(f: Readonly<ConsonantFeatures>): string {
+  const series = obstruentJamo[f.place]
+  const plain = f.voicing === 'voiced'
+  switch (f.manner) {
+    case 'stops':
+    case 'clicks':
+      return series.charAt(plain ? 0 : f.voicing === 'ejective' ? 2 : 1)
+    case 'affricates': {
+      const s = f.place === 'labial' || f.place === 'velar' ? series : obstruentJamo.palatal
+      return s.charAt(plain ? 0 : f.voicing === 'ejective' ? 2 : 1)
+    }
+    case 'fricatives':
+      if (f.place === 'labial') return plain ? 'ㅂ' : 'ㅍ'
+      if (f.place === 'velar' || f.place === 'uvular' || f.place === 'glottal') return plain ? 'ㄱ' : 'ㅎ'
+      return plain ? 'ㅈ' : 'ㅅ'
+    case 'nasals':
+      if (f.place === 'labial') return 'ㅁ'
+      return f.place === 'velar' || f.place === 'uvular' ? 'ㅇ' : 'ㄴ'
+    case 'approximants':
+      return f.place === 'labial' || f.place === 'palatal' ? 'ㅇ' : 'ㄹ'
+    case 'lateralFricatives':
+    case 'lateralApproximants':
+    case 'taps':
+    case 'trills':
+      return 'ㄹ'
+    default:
+      return assertNever(f.manner)
+  }
+}
+
+// composes a syllable block
+function block(initial: string, medial: string, final = ' '): string {
+  const code = 0xac00 + (initials.indexOf(initial) * medials.length + medials.indexOf(medial)) * finals.length
+  return String.fromCharCode(code + finals.indexOf(final))
+}
+
+// writes each syllable as a block, breaking up consonant clusters with ㅡ
+function hangul(p: Readonly<PhonologyEngine>): Speller {
+  const letters = (segment: string) => Array.from(segment).filter((c) => !isCombiningMark(c) && c !== 'ː')
+  const isGlide = (c: string) => glideJamo[c] !== undefined
+  const initial = (c: string) => {
+    const f = p.features(c)
+    return f ? initialJamo(f) : 'ㅇ'
+  }
+  const final = (c: string): string | undefined => {
+    // a glottal stop is written with the ㅅ that marks glottalization
+    if (c === "'") return 'ㅅ'
+    const jamo = initial(c)
+    if (isGlide(c) || !finals.includes(jamo)) return undefined
+    // a final ㅇ is ng, not silence
+    return jamo !== 'ㅇ' || p.features(c)?.manner === 'nasals' ? jamo : undefined
+  }
+  // a consonant with no vowel of its own
+  const lone = (c: string): [string, string, string] => {
+    if (isGlide(c)) return ['ㅇ', c === 'w' ? 'ㅜ' : 'ㅣ', ' ']
+    return [initial(c), 'ㅡ', ' ']
+  }
+  const spellSyllable = (syllable: string): string => {
+    const segments = p.segments(syllable).filter((s) => !/^[0-9ˈˌ]$/.test(s))
+    const n = segments.findIndex((s) => p.isVowel(s))
+    if (n < 0) return segments.map((c) => block(...lone(c))).join('')
+    const onset = segments.slice(0, n)
+    // a doubled long vowel is written once
+    const coda = segments.slice(n + 1).filter((s) => !p.isVowel(s))
+    const [first, ...rest] = letters(segments[n])
+    let medial = vowelJamo[first] ?? 'ㅡ'
+    const glide = onset[onset.length - 1]
+    if (glide && glideJamo[glide]?.[first]) {
+      medial = glideJamo[glide][first]
+      onset.pop()
+    }
+    const last = onset.pop()
+    const blocks = onset.map(lone)
+    blocks.push([last === undefined ? 'ㅇ' : initial(last), medial, ' '])
+    for (const v of rest) blocks.push(['ㅇ', vowelJamo[v] ?? 'ㅡ', ' '])
+    const nucleus = blocks[blocks.length - 1]
+    const [c, ...others] = coda
+    if (c !== undefined) {
+      const jamo = final(c)
+      if (jamo) nucleus[2] = jamo
+      else blocks.push(lone(c))
+    }
+    for (const o of others) blocks.push(lone(o))
+    // a nasal vowel is closed with ng
+    if (nucleus[2] === ' ' && segments[n].includes('\u0303')) nucleus[2] = 'ㅇ'
+    return blocks.map((b) => block(...b)).join('')
+  }
+  // the phonemes of this language each jamo most likely stands for
+  const readInitial = new Map<string, string>(),
+    readMedial = new Map<string, string>(),
+    readFinal = new Map<string, string>()
+  for (const c of p.consonants()) {
+    const i = initial(c),
+      f = final(c)
+    if (i !== 'ㅇ' && !readInitial.has(i)) readInitial.set(i, c)
+    if (f && !readFinal.has(f)) readFinal.set(f, c)
+  }
+  for (const [v, jamo] of Object.entries(vowelJamo)) if (p.isVowel(v)) readMedial.set(jamo, v)
+  for (const [g, table] of Object.entries(glideJamo)) {
+    if (!p.consonants().includes(g)) continue
+    for (const [v, jamo] of Object.entries(table)) {
+      if (p.isVowel(v) && !readMedial.has(jamo)) readMedial.set(jamo, g + v)
+    }
+  }
+  const unspell = (word: string): string =>
+    Array.from(word)
+      .map((c) => {
+        const code = c.charCodeAt(0) - 0xac00
+        if (code < 0 || code >= initials.length * medials.length * finals.length) return c
+        const f = code % finals.length,
+          m = Math.floor(code / finals.length) % medials.length,
+          i = Math.floor(code / finals.length / medials.length)
+        return (
+          (readInitial.get(initials.charAt(i)) ?? '') +
+          (readMedial.get(medials.charAt(m)) ?? '') +
+          (f ? readFinal.get(finals.charAt(f)) ?? '' : '')
+        )
+      })
+      .join('')
+  return {
+    write: (text) => byWord(text, (word) => p.syllabify(word).map(spellSyllable).join('')),
+    read: (text) => byWord(text, unspell),
+  }
+}
+
+type AbjadLetters = {
+  consonants: Record<string, string>
+  // the short vowel points
+  points: Record<string, string>
+  // the letters that write long vowels and the second half of diphthongs
+  matres: Record<string, string>
+  // the letters that write vowels at the end of a word
+  finalVowels: Record<string, string>
+  // the silent consonant that carries a vowel at the start of a word or in hiatus
+  carrier: string
+  hiatus: string
+  punctuation: Record<string, string>
+}
+
+const abjads: Record<Abjad, AbjadLetters> = {
+  // modern Hebrew, with the geresh for foreign sounds
+  hebrew: {
+    consonants: {
+      b: 'ב',
+      v: 'ב',
+      p: 'פ',
+      ph: 'פ',
+      f: 'פ',
+      m: 'מ',
+      w: 'ו',
+      θ: 'ת׳',
+      dh: 'ד׳',
+      t: 'ת',
+      th: 'ת',
+      ṭ: 'ט',
+      d: 'ד',
+      s: 'ס',
+      z: 'ז',
+      ts: 'צ',
+      n: 'נ',
+      l: 'ל',
+      r: 'ר',
+      rr: 'ר',
+      ɾ: 'ר',
+      ɻ: 'ר',
+      ʀ: 'ר',
+      ll: 'ל',
+      ɮ: 'ל',
+      ṣ: 'ש',
+      ẓ: 'ז׳',
+      ṭṣ: 'צ׳',
+      ḍẓ: 'ג׳',
+      c: 'כ',
+      ch: 'כ',
+      ɟ: 'ג',
+      ç: 'ח',
+      j: 'י',
+      ʝ: 'י',
+      ñ: 'נ',
+      ʎ: 'ל',
+      k: 'כ',
+      kh: 'כ',
+      g: 'ג',
+      ng: 'נג',
+      x: 'ח',
+      gh: 'ע',
+      q: 'ק',
+      χ: 'ח',
+      ʁ: 'ע',
+      h: 'ה',
+      "'": 'א',
+      ʘ: 'פ',
+      ǀ: 'ת',
+      ǃ: 'ק',
+      ǁ: 'ל',
+      ǂ: 'כ',
+    },
+    points: {
+      a: '\u05b7',
+      ä: '\u05b8',
+      e: '\u05b6',
+      ë: '\u05b0',
+      i: '\u05b4',
+      y: '\u05b4',
+      o: '\u05b9',
+      ö: '\u05b9',
+      u: '\u05bb',
+    },
+    matres: { e: 'י', i: 'י', y: 'י', o: 'ו', ö: 'ו', u: 'ו' },
+    finalVowels: { a: 'ה', ä: 'ה', e: 'ה', ë: 'ה', i: 'י', y: 'י', o: 'ו', ö: 'ו', u: 'ו' },
+    carrier: 'א',
+    hiatus: 'א',
+    punctuation: {},
+  },
+  // Arabic, with Persian, Urdu, and Maghrebi letters for foreign sounds
+  arabic: {
+    consonants: {
+      b: 'ب',
+      p: 'پ',
+      ph: 'پھ',
+      v: 'ڤ',
+      f: 'ف',
+      m: 'م',
+      w: 'و',
+      θ: 'ث',
+      dh: 'ذ',
+      t: 'ت',
+      th: 'تھ',
+      ṭ: 'ط',
+      d: 'د',
+      ḍ: 'ض',
+      s: 'س',
+      z: 'ز',
+      n: 'ن',
+      l: 'ل',
+      r: 'ر',
+      rr: 'ر',
+      ɾ: 'ر',
+      ɻ: 'ر',
+      ʀ: 'ر',
+      ll: 'ل',
+      ɮ: 'ل',
+      ṣ: 'ش',
+      ẓ: 'ژ',
+      ṭṣ: 'چ',
+      ḍẓ: 'ج',
+      c: 'ك',
+      ch: 'كھ',
+      ɟ: 'ج',
+      ç: 'ش',
+      j: 'ي',
+      ʝ: 'ي',
+      ñ: 'ن',
+      ʎ: 'ل',
+      k: 'ك',
+      kh: 'كھ',
+      g: 'گ',
+      x: 'خ',
+      gh: 'غ',
+      ng: 'ڭ',
+      q: 'ق',
+      χ: 'خ',
+      ʁ: 'غ',
+      h: 'ه',
+      "'": 'ء',
+      ʘ: 'پ',
+      ǀ: 'ت',
+      ǃ: 'ق',
+      ǁ: 'ل',
+      ǂ: 'ك',
+    },
+    points: {
+      a: '\u064e',
+      ä: '\u064e',
+      e: '\u0650',
+      ë: '\u0650',
+      i: '\u0650',
+      y: '\u0650',
+      o: '\u064f',
+      ö: '\u064f',
+      u: '\u064f',
+    },
+    matres: { a: 'ا', ä: 'ا', e: 'ي', i: 'ي', y: 'ي', o: 'و', ö: 'و', u: 'و' },
+    finalVowels: {},
+    carrier: 'ا',
+    hiatus: 'ء',
+    punctuation: { ',': '،', ';': '؛', '?': '؟' },
+  },
+}
+
+// the Hebrew letters with a form of their own at the end of a word
+const hebrewFinals: Record<string, string> = { כ: 'ך', מ: 'ם', נ: 'ן', פ: 'ף', צ: 'ץ' }
+
+// bidirectional isolates
+const LRI = '\u2066',
+  RLI = '\u2067',
+  PDI = '\u2069'
+
+// runs of Latin letters and digits, which are written left to right
+const latin = /[0-9A-Za-z\u00c0-\u024f\u1e00-\u1eff][0-9A-Za-z\u00c0-\u024f\u1e00-\u1eff\u0300-\u036f'ʼ-]*/.source
+const latinRun = new RegExp(`${latin}(?:\\s+${latin})*`, 'g')
+
+// writes consonants and long vowels right to left, leaving numerals and foreign words in Latin letters
+function abjad(s: Abjad, p: Readonly<PhonologyEngine>, vowelMarks: boolean): Speller {
+  const { points, matres, finalVowels, carrier, hiatus, punctuation } = abjads[s]
+  const consonants = consonantLetters(abjads[s].consonants, p)
+  const double = p.config().vowels?.longVowelNotation === 'double'
+  const letters = (segment: string) => Array.from(segment).filter((c) => !isCombiningMark(c) && c !== 'ː')
+  // whether a word is made of this language's phonemes
+  const inventory = new Set(p.consonants())
+  const native = (word: string) =>
+    !/^[0-9]/.test(word) && p.segments(word).every((s) => p.isVowel(s) || inventory.has(s) || /^[0-9ˈˌ]$/.test(s))
+  const spell = (word: string): string => {
+    if (!native(word)) return word
+    const segments = p.segments(word).filter((s) => !/^[0-9ˈˌ]$/.test(s))
+    let spelled = ''
+    segments.forEach((segment, i) => {
+      if (!p.isVowel(segment)) {
+        spelled += consonants[segment]
+        return
+      }
+      const [first, ...rest] = letters(segment)
+      const previous = segments[i - 1]
+      // the second half of a doubled vowel lengthens the first
+      if (double && previous && p.isVowel(previous) && letters(previous).join('') === letters(segment).join('')) {
+        spelled += matres[first] ?? ''
+        return
+      }
+      if (i === 0) spelled += carrier
+      else if (p.isVowel(previous)) spelled += hiatus
+      if (vowelMarks) spelled += points[first] ?? ''
+      if (segment.includes('ː') || segment.includes('\u0304')) spelled += matres[first] ?? ''
+      else if (i === segments.length - 1 && rest.length === 0) spelled += finalVowels[first] ?? ''
+      for (const c of rest) spelled += matres[c] ?? ''
+    })
+    return s === 'hebrew' ? spelled.replace(/[כמנפצ](?=׳?$)/, (c) => hebrewFinals[c]) : spelled
+  }
+  // the graphemes of this language's consonants, longest first, and the vowels the marks stand for
+  const graphemes: [string, string][] = []
+  for (const c of p.consonants()) if (consonants[c]) graphemes.push([consonants[c], c])
+  graphemes.sort(([a], [b]) => b.length - a.length)
+  const vowels = new Map<string, string>(),
+    longVowels = new Map<string, string>(),
+    endVowels = new Map<string, string>()
+  for (const [v, point] of Object.entries(points)) if (p.isVowel(v) && !vowels.has(point)) vowels.set(point, v)
+  for (const [v, mater] of Object.entries(matres)) if (p.isVowel(v) && !longVowels.has(mater)) longVowels.set(mater, v)
+  for (const [v, l] of Object.entries(finalVowels)) if (p.isVowel(v) && !endVowels.has(l)) endVowels.set(l, v)
+  const finalForms = new Map<string, string>()
+  for (const [k, v] of Object.entries(hebrewFinals)) finalForms.set(v, k)
+  const unspell = (word: string): string => {
+    word = Array.from(word)
+      .map((c) => finalForms.get(c) ?? c)
+      .join('')
+    let read = ''
+    // the vowel of the last consonant read; a word begins with no consonant for a mater to follow
+    let vowel: string | undefined = ''
+    for (let i = 0; i < word.length; ) {
+      const c = word.charAt(i)
+      const end = i === word.length - 1
+      const g = graphemes.find(([grapheme]) => word.startsWith(grapheme, i))
+      if (vowels.has(c)) {
+        vowel = vowels.get(c)!
+        read += vowel
+      } else if (vowel && (matres[vowel] === c || (end && finalVowels[vowel] === c))) {
+        // a mater after a marked vowel lengthens it
+      } else if (vowel === undefined && longVowels.has(c)) {
+        vowel = longVowels.get(c)!
+        read += vowel
+      } else if (vowel === undefined && end && endVowels.has(c)) {
+        read += endVowels.get(c)
+      } else if ((c === carrier || c === hiatus) && (i === 0 || vowels.has(word.charAt(i + 1)) || !g)) {
+        // a silent carrier
+        vowel = undefined
+      } else if (g) {
+        read += g[1]
+        vowel = undefined
+        i += g[0].length
+        continue
+      } else {
+        read += c
+      }
+      i++
+    }
+    return read
+  }
+  // each paragraph is isolated as right-to-left text
+  const isolate = (text: string) =>
+    text
+      .split('\n')
+      .map((line) => (line ? RLI + line.replace(latinRun, (run) => LRI + run + PDI) + PDI : line))
+      .join('\n')
+  return {
+    write: (text) => {
+      text = byWord(text, spell)
+      for (const [k, v] of Object.entries(punctuation)) text = text.split(k).join(v)
+      return isolate(text)
+    },
+    read: (text) => {
+      text = text.replace(/[\u2066-\u2069]/g, '')
+      for (const [k, v] of Object.entries(punctuation)) text = text.split(v).join(k)
+      return byWord(text, unspell)
+    },
+  }
+}
+
+// the letters for all the consonants of a language; those not found are spelled letter by letter,
+// ignoring retroflex dots
+function consonantLetters(letters: Record<string, string>, p: Readonly<PhonologyEngine>): Record<string, string> {
+  const map = { ...letters }
+  const letter = (c: string) => letters[c] ?? letters[c.normalize('NFD').charAt(0)] ?? c
+  for (const c of p.consonants()) {
+    map[c] ??= letters[c.normalize('NFD').replace(/\u0323/g, '')] ?? Array.from(c).map(letter).join('')
+  }
+  return map
+}
+
+/**
+ * Makes the functions that write text in a script and read it back into the default orthography.
+ * Like spellers, these consume no random numbers. An invented script is its own speller.
+ *
+ * @param s - the script
+ * @param o - the orthography, used only by the Latin script
+ * @param p - the language's phonology
+ * @param [vowelMarks] - whether the abjads mark short vowels
+ * @returns the speller
+ */
+export function makeScript(
+  s: Exclude<Script, 'invented'>,
+  o: Orthography,
+  p: Readonly<PhonologyEngine>,
+  vowelMarks = false,
+): Speller {
+  switch (s) {
+    case 'latin':
+      return makeSpeller(o, p)
+    case 'hangul':
+      return hangul(p)
+    case 'hebrew':
+    case 'arabic':
+      return abjad(s, p, vowelMarks)
+    case 'cyrillic':
+    case 'greek':
+    case 'georgian': {
+      const speller = makeSpeller(consonantLetters(alphabets[s], p), p)
+      if (s !== 'greek') return speller
+      return {
+        write: (text) => speller.write(text).replace(medialSigma, 'ς'),
+        read: (text) => speller.read(text.replace(/ς/g, 'σ')),
+      }
+    }
+    default:
+      return assertNever(s)
+  }
+}
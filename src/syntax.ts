@@ -1,5 +1,6 @@
 import { pickMe, pickMeToo, Rng } from 'pick-me-too'
-import { MorphologyEngine } from './morphology'
+import { GlossedSentence, GlossedWord } from './gloss'
+import { Case, Features, MorphologyEngine, PersonNumber } from './morphology'
 import { capitalize, Hmm, shuffle } from './util'
 
 export type Syntax = {
@@ -10,6 +11,16 @@ export type Syntax = {
   modifierPosition?: RelativeOrder
   adpositionPosition?: RelativeOrder
   usesAuxiliaryVerbs?: boolean
+  /**
+   * The case adpositions govern, if the language marks case.
+   */
+  adpositionCase?: Case
+  /**
+   * Whether pronominal subjects are left out, the verb's agreement showing who is meant. A pro-drop
+   * language does not require subjects, so `verbRequiresSubject` cannot also be true, and by default
+   * only a language with rich agreement is pro-drop.
+   */
+  proDrop?: boolean
 }
 
 // probabilities taken from https://en.wikipedia.org/wiki/Word_order#Distribution_of_word_order_types
@@ -22,6 +33,9 @@ type RelativeOrder = 'before' | 'after'
 
 type SententialParticlePosition = 'initial' | 'final' | 'beforeVerb' | 'afterVerb'
 
+// the features of a subject that its verb agrees with
+type SubjectFeatures = { nounClass?: number; personNumber?: PersonNumber }
+
 /**
  * The thing that puts words in order.
  * 
@@ -31,21 +45,39 @@ export class SyntaxEngine {
   private morphology: Readonly<MorphologyEngine>
   private syntax: Syntax
   private rng: Rng
-  private stemlessNoun!: () => string
-  private nounModifier!: () => null | string
+  // phrases are built as lists of glossed words, which the public methods join
+  private stemlessNoun!: (c?: Case) => GlossedWord[]
+  private nounModifier!: (nounClass?: number) => null | GlossedWord[]
+  // a noun phrase in some case and the class of its head
+  private classedNounPhrase!: (stem?: string, c?: Case, features?: Features) => [GlossedWord[], number | undefined]
+  private glossedVerbPhrase!: (stem?: string, subject?: SubjectFeatures) => GlossedWord[]
+  private glossedAdpositionPhrase!: (stem?: string) => GlossedWord[]
+  private glossedAdverbial!: () => GlossedWord[]
   private relativeParticle!: string
-  private basicClause!: (...topics: string[]) => string
+  private basicClause!: (...topics: string[]) => GlossedWord[]
   private sententialParticlePositions!: () => Record<SententialParticlePosition, number>
   assertionParticle?: () => string
   questionParticle?: () => string
   adposition!: () => string
   nounPhrase!: (stem?: string) => string
-  verbPhrase!: (stem?: string) => string
+  verbPhrase!: (stem?: string, subject?: SubjectFeatures) => string
   adpositionPhrase!: (stem?: string) => string
   adverbial!: () => string
   assertion!: (...topics: string[]) => string
   question!: (...topics: string[]) => string
   exclamation!: (...topics: string[]) => string
+  /**
+   * Makes an assertion as `assertion` does, with the morphemes of its words and their glosses.
+   */
+  glossedAssertion!: (...topics: string[]) => GlossedSentence
+  /**
+   * Makes a question as `question` does, with the morphemes of its words and their glosses.
+   */
+  glossedQuestion!: (...topics: string[]) => GlossedSentence
+  /**
+   * Makes an exclamation as `exclamation` does, with the morphemes of its words and their glosses.
+   */
+  glossedExclamation!: (...topics: string[]) => GlossedSentence
   /**
    * Creates an object that will pick syntactic structure. It sets its parameters during construction,
    * then generates random syntax on demand.
@@ -61,6 +93,9 @@ export class SyntaxEngine {
     const hmm = new Hmm(rng)
     // we build up all our public methods as closures to offload the heavy lifting
     // to initialization
+    // every parameter is picked whether or not it is configured, and every closed class is made
+    // whether or not it is used, so the random number generator is always drawn on in the same way
+    // and a daughter language with a drifted syntax keeps its parent's particles
     this.initializeWordOrder()
     this.initializeAssertionParticlePosition()
     this.initializeQuestionParticlePosition()
@@ -108,18 +143,19 @@ export class SyntaxEngine {
     const modifierType = pickMe(
       [
         // pulled out of hat
-        [() => this.nounPhrase(), 1],
-        [() => this.morphology.noun(), 10], // roughly an adjective
-        [() => this.adpositionPhrase(), 2], // yeah, the word order is going to be screwy
-        [() => `${this.relativeParticle} ${this.basicClause()}`, 1], // relative clause
+        [() => this.classedNounPhrase()[0], 1],
+        // roughly an adjective, which agrees with the noun
+        [(nounClass?: number) => [this.morphology.glossedClassAgreement(this.morphology.glossedNoun(), nounClass)], 10],
+        [() => this.glossedAdpositionPhrase(), 2], // yeah, the word order is going to be screwy
+        [() => particle(this.relativeParticle, 'REL').concat(this.basicClause()), 1], // relative clause
       ],
       this.rng,
     )
-    this.nounModifier = () => {
+    this.nounModifier = (nounClass?: number) => {
       if (hmm.maybe(modifierProbability)) {
-        const modifier = modifierType()()
-        const additionalModifier = this.nounModifier()
-        return additionalModifier ? `${modifier} ${additionalModifier}` : modifier
+        const modifier = modifierType()(nounClass)
+        const additionalModifier = this.nounModifier(nounClass)
+        return additionalModifier ? modifier.concat(additionalModifier) : modifier
       } else {
         return null
       }
@@ -128,116 +164,145 @@ export class SyntaxEngine {
   private initializeQuestion() {
     switch (this.syntax.questionParticlePosition!) {
       case 'initial':
-        this.question = (...topics: string[]) => {
+        this.glossedQuestion = (...topics: string[]) => {
           const p = this.questionParticle!()
           const clause = this.basicClause(...topics)
-          return capitalize(p ? `${p} ${clause}?` : `${clause}?`)
+          return sentence(particle(p, 'Q').concat(clause), '?')
         }
       case 'final':
-        this.question = (...topics: string[]) => {
+        this.glossedQuestion = (...topics: string[]) => {
           const p = this.questionParticle!()
           const clause = this.basicClause(...topics)
-          return capitalize(p ? `${clause} ${p}?` : `${clause}?`)
+          return sentence(clause.concat(particle(p, 'Q')), '?')
         }
       default:
-        this.question = (...topics: string[]) => capitalize(`${this.basicClause(...topics)}?`)
+        this.glossedQuestion = (...topics: string[]) => sentence(this.basicClause(...topics), '?')
     }
+    this.question = (...topics: string[]) => this.glossedQuestion(...topics).text
   }
   private initializeAdverbials(hmm: Hmm) {
-    this.adverbial = () => (hmm.maybe(0.1) ? this.adpositionPhrase() : this.morphology.adverb())
+    this.glossedAdverbial = () => (hmm.maybe(0.1) ? this.glossedAdpositionPhrase() : [this.morphology.glossedAdverb()])
+    this.adverbial = () => text(this.glossedAdverbial())
   }
   private initializeAssertion(hmm: Hmm) {
     const argumentCount = (
       this.syntax.verbRequiresSubject ? argumentCountPickerSubjectIsRequired : argumentCountPickerSubjectNotRequired
     )(this.rng)
-    let basicClause: (...topics: string[]) => string
+    const { alignment } = this.morphology.config()
+    // the cases of the arguments of verbs with one, two, or three arguments, subject first
+    const roles: Case[][] =
+      alignment === 'ergativeAbsolutive'
+        ? [[], ['absolutive'], ['ergative', 'absolutive'], ['ergative', 'absolutive', 'dative']]
+        : [[], ['nominative'], ['nominative', 'accusative'], ['nominative', 'accusative', 'dative']]
+    const personNumber = personNumberPicker(this.rng)
+    // the arguments are made first so that the verb can agree with the subject; a subject left
+    // out by pro-drop has no words
+    const argumentsAndVerb = (topics: string[], subjectLast = false): [GlossedWord[][], GlossedWord[]] => {
+      const args: GlossedWord[][] = []
+      const n = argumentCount()
+      const cases = subjectLast ? roles[n].slice().reverse() : roles[n]
+      let subject: SubjectFeatures = {}
+      cases.forEach((c, i) => {
+        const isSubject = i === (subjectLast ? n - 1 : 0)
+        if (isSubject && !topics.length && hmm.maybe(0.3)) {
+          subject = { personNumber: personNumber() }
+          const pronoun = this.morphology.glossedPronoun(subject.personNumber)
+          args.push(this.syntax.proDrop ? [] : [this.morphology.glossedCaseMarking(pronoun, c)])
+          return
+        }
+        // the verb agrees with the number of a subject noun
+        const number = isSubject ? (hmm.maybe(0.8) ? 'singular' : 'plural') : undefined
+        const [phrase, nounClass] = this.classedNounPhrase(topics.shift(), c, number && { number })
+        if (isSubject) subject = { nounClass, personNumber: number === 'plural' ? '3pl' : '3sg' }
+        args.push(phrase)
+      })
+      return [args, this.glossedVerbPhrase(undefined, subject)]
+    }
+    const sententialParticle = () => particle(this.morphology.particle(), 'PTCL')
+    let basicClause: (...topics: string[]) => GlossedWord[]
     switch (this.syntax.basicWordOrder!) {
       case 'VSO':
         {
-          basicClause = (...topics: string[]): string => {
+          basicClause = (...topics: string[]): GlossedWord[] => {
             const pp = this.sententialParticlePositions()
-            const ar: string[] = []
-            while (pp.initial--) ar.push(this.morphology.particle())
-            while (pp.beforeVerb--) ar.push(this.morphology.particle())
-            ar.push(this.verbPhrase())
-            while (pp.afterVerb--) ar.push(this.morphology.particle())
-            let n = argumentCount()
-            while (n--) ar.push(this.nounPhrase(topics.shift()))
-            while (pp.final--) ar.push(this.morphology.particle())
-            return ar.join(' ')
+            const [args, verbPhrase] = argumentsAndVerb(topics)
+            const ar: GlossedWord[][] = []
+            while (pp.initial--) ar.push(sententialParticle())
+            while (pp.beforeVerb--) ar.push(sententialParticle())
+            ar.push(verbPhrase)
+            while (pp.afterVerb--) ar.push(sententialParticle())
+            ar.push(...args)
+            while (pp.final--) ar.push(sententialParticle())
+            return flatten(ar)
           }
         }
         break
       case 'SVO':
         {
-          basicClause = (...topics: string[]): string => {
+          basicClause = (...topics: string[]): GlossedWord[] => {
             const pp = this.sententialParticlePositions()
-            const ar: string[] = []
-            const verbPhrase: string[] = []
-            while (pp.beforeVerb--) verbPhrase.push(this.morphology.particle())
-            verbPhrase.push(this.verbPhrase())
-            while (pp.afterVerb--) verbPhrase.push(this.morphology.particle())
-            while (pp.initial--) ar.push(this.morphology.particle())
-            let n = argumentCount()
-            while (n--) ar.push(this.nounPhrase(topics.shift()))
+            const [args, vp] = argumentsAndVerb(topics)
+            const ar: GlossedWord[][] = []
+            const verbPhrase: GlossedWord[][] = []
+            while (pp.beforeVerb--) verbPhrase.push(sententialParticle())
+            verbPhrase.push(vp)
+            while (pp.afterVerb--) verbPhrase.push(sententialParticle())
+            while (pp.initial--) ar.push(sententialParticle())
+            ar.push(...args)
             if (ar.length) {
               ar.splice(1, 0, ...verbPhrase)
             } else {
               ar.splice(0, 0, ...verbPhrase)
             }
-            while (pp.final--) ar.push(this.morphology.particle())
-            return ar.join(' ')
+            while (pp.final--) ar.push(sententialParticle())
+            return flatten(ar)
           }
         }
         break
       case 'SOV':
         {
-          basicClause = (...topics: string[]): string => {
+          basicClause = (...topics: string[]): GlossedWord[] => {
             const pp = this.sententialParticlePositions()
-            const ar: string[] = []
-            while (pp.initial--) ar.push(this.morphology.particle())
-            let n = argumentCount()
-            while (n--) ar.push(this.nounPhrase(topics.shift()))
-            while (pp.beforeVerb--) ar.push(this.morphology.particle())
-            ar.push(this.verbPhrase())
-            while (pp.afterVerb--) ar.push(this.morphology.particle())
-            while (pp.final--) ar.push(this.morphology.particle())
-            return ar.join(' ')
+            const [args, verbPhrase] = argumentsAndVerb(topics)
+            const ar: GlossedWord[][] = []
+            while (pp.initial--) ar.push(sententialParticle())
+            ar.push(...args)
+            while (pp.beforeVerb--) ar.push(sententialParticle())
+            ar.push(verbPhrase)
+            while (pp.afterVerb--) ar.push(sententialParticle())
+            while (pp.final--) ar.push(sententialParticle())
+            return flatten(ar)
           }
         }
         break
       case 'VOS':
         {
-          basicClause = (...topics: string[]): string => {
+          basicClause = (...topics: string[]): GlossedWord[] => {
             const pp = this.sententialParticlePositions()
-            const ar: string[] = []
-            while (pp.initial--) ar.push(this.morphology.particle())
-            while (pp.beforeVerb--) ar.push(this.morphology.particle())
-            ar.push(this.verbPhrase())
-            while (pp.afterVerb--) ar.push(this.morphology.particle())
-            const args: string[] = []
-            let n = argumentCount()
-            while (n--) args.push(this.nounPhrase(topics.shift()))
+            const [args, verbPhrase] = argumentsAndVerb(topics)
+            const ar: GlossedWord[][] = []
+            while (pp.initial--) ar.push(sententialParticle())
+            while (pp.beforeVerb--) ar.push(sententialParticle())
+            ar.push(verbPhrase)
+            while (pp.afterVerb--) ar.push(sententialParticle())
             ar.push(...args.reverse())
-            while (pp.final--) ar.push(this.morphology.particle())
-            return ar.join(' ')
+            while (pp.final--) ar.push(sententialParticle())
+            return flatten(ar)
           }
         }
         break
       case 'OVS':
         {
-          basicClause = (...topics: string[]): string => {
+          basicClause = (...topics: string[]): GlossedWord[] => {
             const pp = this.sententialParticlePositions()
-            const ar: string[] = []
-            while (pp.initial--) ar.push(this.morphology.particle())
-            let args: string[] = []
-            let n = argumentCount()
-            while (n--) args.push(this.nounPhrase(topics.shift()))
-            args = args.reverse()
-            const verbPhrase: string[] = []
-            while (pp.beforeVerb--) verbPhrase.push(this.morphology.particle())
-            verbPhrase.push(this.verbPhrase())
-            while (pp.afterVerb--) verbPhrase.push(this.morphology.particle())
+            const [built, vp] = argumentsAndVerb(topics)
+            const ar: GlossedWord[][] = []
+            while (pp.initial--) ar.push(sententialParticle())
+            const args = built.reverse()
+            const verbPhrase: GlossedWord[][] = []
+            while (pp.beforeVerb--) verbPhrase.push(sententialParticle())
+            verbPhrase.push(vp)
+            while (pp.afterVerb--) verbPhrase.push(sententialParticle())
             ar.reverse()
             if (args.length) {
               args.splice(1, 0, ...verbPhrase)
@@ -245,148 +310,174 @@ export class SyntaxEngine {
               args.push(...verbPhrase)
             }
             ar.push(...args)
-            while (pp.final--) ar.push(this.morphology.particle())
-            return ar.join(' ')
+            while (pp.final--) ar.push(sententialParticle())
+            return flatten(ar)
           }
         }
         break
       case 'OSV':
         {
-          basicClause = (...topics: string[]): string => {
+          basicClause = (...topics: string[]): GlossedWord[] => {
             const pp = this.sententialParticlePositions()
-            const ar: string[] = []
-            while (pp.initial--) ar.push(this.morphology.particle())
-            let args: string[] = []
-            let n = argumentCount()
-            while (n--) args.push(this.nounPhrase(topics.shift()))
+            const [args, verbPhrase] = argumentsAndVerb(topics, true)
+            const ar: GlossedWord[][] = []
+            while (pp.initial--) ar.push(sententialParticle())
             ar.push(...args)
-            while (pp.beforeVerb--) ar.push(this.morphology.particle())
-            ar.push(this.verbPhrase())
-            while (pp.afterVerb--) ar.push(this.morphology.particle())
-            while (pp.final--) ar.push(this.morphology.particle())
-            return ar.join(' ')
+            while (pp.beforeVerb--) ar.push(sententialParticle())
+            ar.push(verbPhrase)
+            while (pp.afterVerb--) ar.push(sententialParticle())
+            while (pp.final--) ar.push(sententialParticle())
+            return flatten(ar)
           }
         }
         break
       default:
-        basicClause = (...topics: string[]): string => {
+        basicClause = (...topics: string[]): GlossedWord[] => {
           const pp = this.sententialParticlePositions()
-          const ar: string[] = []
-          while (pp.initial--) ar.push(this.morphology.particle())
-          const verbPhrase: string[] = []
-          while (pp.beforeVerb--) verbPhrase.push(this.morphology.particle())
-          verbPhrase.push(this.verbPhrase())
-          while (pp.afterVerb--) verbPhrase.push(this.morphology.particle())
-          let args: string[] = []
-          let n = argumentCount()
-          while (n--) args.push(this.nounPhrase(topics.shift()))
-          args = shuffle(args, this.rng)
+          const [built, vp] = argumentsAndVerb(topics)
+          const ar: GlossedWord[][] = []
+          while (pp.initial--) ar.push(sententialParticle())
+          const verbPhrase: GlossedWord[][] = []
+          while (pp.beforeVerb--) verbPhrase.push(sententialParticle())
+          verbPhrase.push(vp)
+          while (pp.afterVerb--) verbPhrase.push(sententialParticle())
+          const args = shuffle(built, this.rng)
           args.splice(Math.round(hmm.fromRange(0, args.length)), 0, ...verbPhrase)
           ar.push(...args)
-          while (pp.final--) ar.push(this.morphology.particle())
-          return ar.join(' ')
+          while (pp.final--) ar.push(sententialParticle())
+          return flatten(ar)
         }
     }
     this.basicClause = basicClause
     switch (this.syntax.assertionParticlePosition) {
       case 'initial':
-        this.assertion = (...topics: string[]) => {
+        this.glossedAssertion = (...topics: string[]) => {
           const p = this.assertionParticle!()
           const clause = this.basicClause(...topics)
-          return capitalize(p ? `${p} ${clause}.` : `${clause}.`)
+          return sentence(particle(p, 'PTCL').concat(clause), '.')
         }
         break
       case 'final':
-        this.assertion = (...topics: string[]) => {
+        this.glossedAssertion = (...topics: string[]) => {
           const p = this.assertionParticle!()
           const clause = this.basicClause(...topics)
-          return capitalize(p ? `${clause} ${p}.` : `${clause}.`)
+          return sentence(clause.concat(particle(p, 'PTCL')), '.')
         }
         break
       default:
-        this.assertion = (...topics: string[]) => capitalize(`${this.basicClause(...topics)}.`)
+        this.glossedAssertion = (...topics: string[]) => sentence(this.basicClause(...topics), '.')
     }
+    this.assertion = (...topics: string[]) => this.glossedAssertion(...topics).text
     switch (this.syntax.assertionParticlePosition) {
       case 'initial':
-        this.exclamation = (...topics: string[]) => {
+        this.glossedExclamation = (...topics: string[]) => {
           const p = this.assertionParticle!()
           const clause = this.basicClause(...topics)
-          return capitalize(p ? `${p} ${clause}!` : `${clause}!`)
+          return sentence(particle(p, 'PTCL').concat(clause), '!')
         }
         break
       case 'final':
-        this.exclamation = (...topics: string[]) => {
+        this.glossedExclamation = (...topics: string[]) => {
           const p = this.assertionParticle!()
           const clause = this.basicClause(...topics)
-          return capitalize(p ? `${clause} ${p}!` : `${clause}!`)
+          return sentence(clause.concat(particle(p, 'PTCL')), '!')
         }
         break
       default:
-        this.exclamation = (...topics: string[]) => capitalize(`${this.basicClause(...topics)}!`)
+        this.glossedExclamation = (...topics: string[]) => sentence(this.basicClause(...topics), '!')
     }
+    this.exclamation = (...topics: string[]) => this.glossedExclamation(...topics).text
   }
   private initializeAdpositionPhrase() {
+    const cases = Object.keys(this.morphology.config().cases ?? {}) as Case[]
+    // mostly an oblique case, sometimes the dative or the case of the object
+    const governed = (['oblique', 'dative', 'accusative', 'absolutive'] as Case[]).filter((c) => cases.includes(c))
+    if (governed.length) {
+      const picked = pickMe(
+        governed.map((c) => [c, c === 'oblique' ? 3 : 1] as [Case, number]),
+        this.rng,
+      )()
+      this.syntax.adpositionCase ??= picked
+    }
+    const c = this.syntax.adpositionCase
+    const object = (stem?: string) => (stem ? this.classedNounPhrase(stem, c)[0] : this.stemlessNoun(c))
+    const adposition = () => particle(this.adposition(), 'ADP')
     if (this.syntax.adpositionPosition === 'before') {
-      this.adpositionPhrase = (stem?: string) =>
-        `${this.adposition()} ${stem ? this.nounPhrase(stem) : this.stemlessNoun()}`
+      this.glossedAdpositionPhrase = (stem?: string) => adposition().concat(object(stem))
     } else {
-      this.adpositionPhrase = (stem?: string) =>
-        `${stem ? this.nounPhrase(stem) : this.stemlessNoun()} ${this.adposition()}`
+      this.glossedAdpositionPhrase = (stem?: string) => object(stem).concat(adposition())
     }
+    this.adpositionPhrase = (stem?: string) => text(this.glossedAdpositionPhrase(stem))
   }
   private initializeVerbPhrase(hmm: Hmm) {
-    this.syntax.verbRequiresSubject ??= hmm.maybe(0.5)
-    this.syntax.usesAuxiliaryVerbs ??= this.morphology.config().analytic ? hmm.maybe(0.95) : hmm.maybe(0.1)
-    let verb: (stem?: string) => string
+    const rich = this.morphology.richAgreement()
+    const requiresSubject = hmm.maybe(rich ? 0.2 : 0.5)
+    if (this.syntax.proDrop && this.syntax.verbRequiresSubject) {
+      throw new Error('a pro-drop language cannot require subjects')
+    }
+    this.syntax.verbRequiresSubject ??= !this.syntax.proDrop && requiresSubject
+    this.syntax.proDrop ??= rich && !this.syntax.verbRequiresSubject
+    const usesAuxiliaryVerbs = hmm.maybe(this.morphology.config().analytic ? 0.95 : 0.1)
+    this.syntax.usesAuxiliaryVerbs ??= usesAuxiliaryVerbs
+    // the inflected verb agrees with its subject
+    const agree = (stem: string | undefined, { nounClass, personNumber }: SubjectFeatures = {}, gloss?: string) =>
+      this.morphology.glossedPersonAgreement(
+        this.morphology.glossedClassAgreement(this.morphology.glossedVerb(stem, gloss), nounClass),
+        personNumber,
+      )
+    const auxiliaryVerbs = this.morphology.makeParticles(auxiliaryVerbCount(this.rng)(), false)
+    // if we can have auxiliary verbs, assume we usually have them
+    const threshold = hmm.fromRange(0.1, 0.5)
+    let verb: (stem?: string, subject?: SubjectFeatures) => GlossedWord[]
     if (this.syntax.usesAuxiliaryVerbs) {
-      const auxiliaryVerbs = this.morphology.makeParticles(auxiliaryVerbCount(this.rng)(), false)
-      // if we can have auxiliary verbs, assume we usually have them
-      const threshold = hmm.fromRange(0.1, 0.5)
-      verb = (stem?: string) =>
+      verb = (stem?: string, subject?: SubjectFeatures) =>
         hmm.maybe(threshold)
-          ? this.morphology.verb(stem)
+          ? [agree(stem, subject)]
           : // yep, this assumes a fixed order or these, and only one auxiliary verb
-            `${this.morphology.verb(auxiliaryVerbs())} ${stem ?? this.morphology.verbStem()}`
+            [
+              agree(auxiliaryVerbs(), subject, 'AUX'),
+              this.morphology.glossedWord(stem ?? this.morphology.verbStem(), 'verb'),
+            ]
     } else {
-      verb = (stem?: string) => this.morphology.verb(stem)
+      verb = (stem?: string, subject?: SubjectFeatures) => [agree(stem, subject)]
     }
     const adverbialCount = adverbialCountMaker(this.rng)
     if (this.syntax.modifierPosition === 'before') {
-      this.verbPhrase = (stem?: string) => {
-        const ar: string[] = []
+      this.glossedVerbPhrase = (stem?: string, subject?: SubjectFeatures) => {
+        const ar: GlossedWord[] = []
         let n = adverbialCount()
-        while (n--) ar.push(this.adverbial())
-        ar.push(verb(stem))
-        return ar.join(' ')
+        while (n--) ar.push(...this.glossedAdverbial())
+        ar.push(...verb(stem, subject))
+        return ar
       }
     } else {
-      this.verbPhrase = (stem?: string) => {
-        const ar: string[] = [verb(stem)]
+      this.glossedVerbPhrase = (stem?: string, subject?: SubjectFeatures) => {
+        const ar = verb(stem, subject)
         let n = adverbialCount()
-        while (n--) ar.push(this.adverbial())
-        return ar.join(' ')
+        while (n--) ar.push(...this.glossedAdverbial())
+        return ar
       }
     }
+    this.verbPhrase = (stem?: string, subject?: SubjectFeatures) => text(this.glossedVerbPhrase(stem, subject))
   }
   private initializeNounPhrase(hmm: Hmm) {
-    this.stemlessNoun = () => (hmm.maybe(0.2) ? this.morphology.pronoun() : this.nounPhrase())
-    if (this.syntax.modifierPosition === 'before') {
-      this.nounPhrase = (stem?: string) => {
-        const noun = this.morphology.noun(stem)
-        const modifier = this.nounModifier()
-        return modifier ? `${modifier} ${noun}` : noun
-      }
-    } else {
-      this.nounPhrase = (stem?: string) => {
-        const noun = this.morphology.noun(stem)
-        const modifier = this.nounModifier()
-        return modifier ? `${noun} ${modifier}` : noun
-      }
+    this.stemlessNoun = (c?: Case) =>
+      hmm.maybe(0.2)
+        ? [this.morphology.glossedCaseMarking(this.morphology.glossedPronoun(), c)]
+        : this.classedNounPhrase(undefined, c)[0]
+    const before = this.syntax.modifierPosition === 'before'
+    this.classedNounPhrase = (stem?: string, c?: Case, features?: Features) => {
+      const s = stem ?? this.morphology.nounStem()
+      const nounClass = this.morphology.nounClass(s)
+      const noun = this.morphology.glossedCaseMarking(this.morphology.glossedNoun(s, stem !== undefined, features), c)
+      const modifier = this.nounModifier(nounClass)
+      if (!modifier) return [[noun], nounClass]
+      return [before ? modifier.concat([noun]) : [noun].concat(modifier), nounClass]
     }
+    this.nounPhrase = (stem?: string) => text(this.classedNounPhrase(stem)[0])
   }
   private initializeAdpositionPosition() {
     this.adposition = this.morphology.makeParticles(auxiliaryCountMaker(this.rng)(), false)
-    if (this.syntax.adpositionPosition !== undefined) return
     let adpositionPosition: (rng: Rng) => () => RelativeOrder
     switch (this.syntax.basicWordOrder!) {
       case 'SOV':
@@ -402,37 +493,38 @@ export class SyntaxEngine {
       default:
         adpositionPosition = nonconfigurationalAdpositionOrderPicker
     }
-    this.syntax.adpositionPosition = adpositionPosition(this.rng)()
+    const picked = adpositionPosition(this.rng)()
+    this.syntax.adpositionPosition ??= picked
   }
   private initializeModifierPosition() {
-    this.syntax.modifierPosition ??= modifierPositionPicker(this.rng)()
+    const picked = modifierPositionPicker(this.rng)()
+    this.syntax.modifierPosition ??= picked
   }
   private initializeQuestionParticlePosition() {
-    if (this.syntax.questionParticlePosition !== undefined) return
+    let picked: DiscourseParticlePosition
     switch (this.syntax.assertionParticlePosition!) {
       case 'initial':
-        this.syntax.questionParticlePosition = questionParticlePositionPickerInitial(this.rng)()
+        picked = questionParticlePositionPickerInitial(this.rng)()
         break
       case 'final':
-        this.syntax.questionParticlePosition = questionParticlePositionPickerFinal(this.rng)()
+        picked = questionParticlePositionPickerFinal(this.rng)()
         break
       default:
-        this.syntax.questionParticlePosition = questionParticlePositionPickerNone(this.rng)()
-    }
-    if (this.syntax.questionParticlePosition !== 'none') {
-      const n = questionParticleCountPicker(this.rng)()
-      this.questionParticle = this.morphology.makeParticles(n, true)
+        picked = questionParticlePositionPickerNone(this.rng)()
     }
+    this.syntax.questionParticlePosition ??= picked
+    const particles = this.morphology.makeParticles(questionParticleCountPicker(this.rng)(), true)
+    if (this.syntax.questionParticlePosition !== 'none') this.questionParticle = particles
   }
   private initializeAssertionParticlePosition() {
-    this.syntax.assertionParticlePosition ??= assertionParticlePositionPicker(this.rng)()
-    if (this.syntax.assertionParticlePosition !== 'none') {
-      const n = assertionParticleCountPicker(this.rng)()
-      this.assertionParticle = this.morphology.makeParticles(n, true)
-    }
+    const picked = assertionParticlePositionPicker(this.rng)()
+    this.syntax.assertionParticlePosition ??= picked
+    const particles = this.morphology.makeParticles(assertionParticleCountPicker(this.rng)(), true)
+    if (this.syntax.assertionParticlePosition !== 'none') this.assertionParticle = particles
   }
   private initializeWordOrder() {
-    this.syntax.basicWordOrder ??= basicWordOrderPicker(this.rng)()
+    const picked = basicWordOrderPicker(this.rng)()
+    this.syntax.basicWordOrder ??= picked
   }
   /**
    * Produces the parameters this engine is using. Only configurable parameters are returned.
@@ -450,6 +542,69 @@ export class SyntaxEngine {
   }
 }
 
+// the words of a phrase as they are written
+const text = (words: GlossedWord[]): string => words.map(({ form }) => form).join(' ')
+
+// the phrases of a clause as one phrase
+const flatten = (phrases: GlossedWord[][]): GlossedWord[] => ([] as GlossedWord[]).concat(...phrases)
+
+// a particle, or nothing if the particle is blank
+const particle = (form: string, gloss: string): GlossedWord[] =>
+  form ? [{ form, morphemes: [{ form, gloss, type: 'stem' }] }] : []
+
+const sentence = (words: GlossedWord[], punctuation: string): GlossedSentence => ({
+  text: capitalize(text(words) + punctuation),
+  words,
+})
+
+// the word orders a language's word order may drift to
+const wordOrderNeighbors: Record<BasicWordOrder, BasicWordOrder[]> = {
+  SOV: ['SVO', 'OSV', 'Unfixed'],
+  SVO: ['SOV', 'VSO', 'Unfixed'],
+  VSO: ['SVO', 'VOS'],
+  VOS: ['VSO', 'OVS'],
+  OVS: ['SOV', 'VOS'],
+  OSV: ['SOV', 'OVS'],
+  Unfixed: ['SOV', 'SVO'],
+}
+
+const flip = (order: RelativeOrder): RelativeOrder => (order === 'before' ? 'after' : 'before')
+
+/**
+ * Changes a few parameters of a syntax, as they might change over generations of a language's
+ * history.
+ *
+ * @param s - a complete syntax configuration, which is modified
+ * @param generations - the number of generations
+ * @param rng - a random number generator
+ * @returns the drifted configuration
+ */
+export function driftSyntax(s: Syntax, generations: number, rng: Rng): Syntax {
+  const h = new Hmm(rng)
+  for (let i = 0; i < generations; i++) {
+    if (!h.maybe(0.4)) continue
+    switch (Math.floor(h.n() * 5)) {
+      case 0: {
+        const neighbors = wordOrderNeighbors[s.basicWordOrder!]
+        s.basicWordOrder = neighbors[Math.floor(h.n() * neighbors.length) % neighbors.length]
+        break
+      }
+      case 1:
+        s.modifierPosition = flip(s.modifierPosition!)
+        break
+      case 2:
+        s.adpositionPosition = flip(s.adpositionPosition!)
+        break
+      case 3:
+        s.usesAuxiliaryVerbs = !s.usesAuxiliaryVerbs
+        break
+      default:
+        s.assertionParticlePosition = s.assertionParticlePosition === 'none' ? 'final' : 'none'
+    }
+  }
+  return s
+}
+
 /*
 distribution stuff pulled out
 */
@@ -514,6 +669,16 @@ const basicWordOrderPicker = pickMeToo<BasicWordOrder>([
   ['Unfixed', 189],
 ])
 
+// the person and number of a pronominal subject
+const personNumberPicker = pickMeToo<PersonNumber>([
+  ['1sg', 3],
+  ['2sg', 2],
+  ['3sg', 4],
+  ['1pl', 1],
+  ['2pl', 1],
+  ['3pl', 2],
+])
+
 // assume most verbs are used intransitively, ditransitives are rare
 const argumentCountPickerSubjectNotRequired = pickMeToo([
   [0, 12],
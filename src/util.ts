@@ -133,9 +133,26 @@ export function shuffle<T>(array: T[], rng: Rng) {
 
 
 export function capitalize(s: string): string {
-  return s.charAt(0).toUpperCase() + s.slice(1)
+  // a stress mark is not a letter
+  const i = s.charAt(0) === 'ˈ' ? 1 : 0
+  // Georgian is written in capitals only in headings
+  if (/[\u10d0-\u10ff]/.test(s.charAt(i))) return s
+  return s.slice(0, i) + s.charAt(i).toUpperCase() + s.slice(i + 1)
 }
 
 export function titleize(s: string): string {
   return s.split(/(\s+)/).map(s => capitalize(s)).join('')
-}
\ No newline at end of file
+}
+
+// whether the character is a combining diacritic, such as a tone mark
+export function isCombiningMark(c: string): boolean {
+  const n = c.codePointAt(0) ?? 0
+  return (n >= 0x300 && n <= 0x36f) || (n >= 0x1dc0 && n <= 0x1dff)
+}
+
+// a stable, non-cryptographic hash of a string (djb2)
+export function hash(s: string): number {
+  let h = 5381
+  for (let i = 0; i < s.length; i++) h = ((h << 5) + h + s.charCodeAt(i)) >>> 0
+  return h
+}
@@ -0,0 +1,310 @@
+import { Rng } from 'pick-me-too'
+import { byWord, Speller } from './orthography'
+import { PhonologyEngine } from './phonology'
+import { Hmm, isCombiningMark } from './util'
+
+/**
+ * The parameters of an invented script. If the type is not given, a language whose syllables are
+ * few and simple gets a syllabary, one without consonant clusters at the ends of syllables an
+ * abugida, and any other an alphabet.
+ */
+export type Writing = {
+  type?: WritingSystemType
+  /**
+   * The vowel a consonant of an abugida carries unless it is marked otherwise.
+   */
+  inherentVowel?: string
+  /**
+   * The probability that a stroke of a glyph is curved.
+   */
+  curviness?: number
+  /**
+   * The width of a stroke as a percentage of the height of a glyph.
+   */
+  strokeWidth?: number
+}
+
+type WritingSystemType = 'alphabet' | 'abugida' | 'syllabary'
+
+type GlyphKind = 'consonant' | 'vowel' | 'syllable' | 'vowelSign' | 'virama' | 'mark'
+
+/**
+ * A character of an invented script.
+ */
+export type Glyph = {
+  /**
+   * The character, a code point in the Private Use Area.
+   */
+  character: string
+  /**
+   * What the character writes, in the default spelling.
+   */
+  grapheme: string
+  kind: GlyphKind
+  /**
+   * Whether the glyph is drawn over the character before it.
+   */
+  combining: boolean
+  svg: string
+}
+
+// the first code point of the Private Use Area
+const privateUseArea = 0xe000
+
+// the points strokes run between: letters fill the lower part of the box, marks the top
+const letterGrid = gridOf([20, 50, 80], [30, 50, 70, 90])
+const markGrid = gridOf([30, 50, 70], [6, 18])
+
+function gridOf(columns: number[], rows: number[]): [number, number][] {
+  const points: [number, number][] = []
+  for (const y of rows) for (const x of columns) points.push([x, y])
+  return points
+}
+
+// a stroke from one point of a grid to another, straight or bending to one side
+type Stroke = [number, number, number]
+
+/**
+ * An invented script for a language, with a procedurally drawn glyph for every grapheme. The
+ * glyphs are mapped to code points in the Private Use Area and can be exported as SVG files, with
+ * a JSON file describing the mapping, for a designer to build a font from.
+ */
+export class WritingSystem implements Speller {
+  private writing: Writing
+  private phonology: Readonly<PhonologyEngine>
+  private glyphList: Glyph[]
+  private characters: Map<string, string>
+  private graphemes: Map<string, Glyph>
+  /**
+   * Creates an instance of writing system.
+   * @param phonology - the phonology of the language written
+   * @param [w] - optional configuration
+   * @param [rng] - a random number generator for picking parameters that are not supplied and drawing glyphs
+   */
+  constructor(phonology: Readonly<PhonologyEngine>, w: Writing = {}, rng: Rng = () => Math.random()) {
+    this.writing = w
+    this.phonology = phonology
+    const h = new Hmm(rng)
+    const consonants = phonology.consonants()
+    const vowels = phonology.vowels()
+    w.type ??= pickType(phonology)
+    if (w.type !== 'alphabet') w.inherentVowel ??= vowels.includes('a') ? 'a' : vowels[0]
+    w.curviness ??= h.n()
+    w.strokeWidth ??= Math.round(h.fromRange(5, 10))
+    const units: [GlyphKind, string][] = []
+    switch (w.type) {
+      case 'alphabet':
+        for (const c of consonants) units.push(['consonant', c])
+        for (const v of vowels) units.push(['vowel', v])
+        break
+      case 'abugida':
+        for (const c of consonants) units.push(['consonant', c])
+        for (const v of vowels) units.push(['vowel', v])
+        for (const v of vowels) if (v !== w.inherentVowel) units.push(['vowelSign', v])
+        units.push(['virama', ''])
+        break
+      case 'syllabary':
+        for (const c of [''].concat(consonants)) for (const v of vowels) units.push(['syllable', c + v])
+        units.push(['virama', ''])
+        break
+    }
+    for (const m of phonology.marks()) units.push(['mark', m])
+    this.glyphList = []
+    this.characters = new Map()
+    this.graphemes = new Map()
+    const drawn: Set<string> = new Set()
+    units.forEach(([kind, grapheme], i) => {
+      const combining = kind === 'vowelSign' || kind === 'virama' || (kind === 'mark' && isCombiningMark(grapheme))
+      const character = String.fromCharCode(privateUseArea + i)
+      const svg = draw(combining ? markGrid : letterGrid, combining ? 1 : 2, drawn, w, h)
+      const glyph = { character, grapheme, kind, combining, svg }
+      this.glyphList.push(glyph)
+      this.characters.set(`${kind} ${grapheme}`, character)
+      this.graphemes.set(character, glyph)
+    })
+  }
+  /**
+   * Provides the configuration parameters used by the writing system.
+   *
+   * @returns configuration parameters
+   */
+  config(): Readonly<Writing> {
+    return this.writing
+  }
+  /**
+   * Provides the glyphs of the script in the order of their code points.
+   *
+   * @returns the glyphs
+   */
+  glyphs(): Readonly<Glyph>[] {
+    return this.glyphList.slice()
+  }
+  /**
+   * Writes text in the script. Letters that are not the language's are left as they are.
+   *
+   * @param text - text in the default orthography
+   * @returns the text in Private Use Area characters
+   */
+  write(text: string): string {
+    return byWord(text, (word) => this.spell(word))
+  }
+  /**
+   * Reads text written in the script back into the default orthography.
+   *
+   * @param text - text in the script
+   * @returns the text in the default orthography
+   */
+  read(text: string): string {
+    return byWord(text, (word) => this.unspell(word))
+  }
+  /**
+   * Exports the script: an SVG file for every glyph, named for its code point as font editors
+   * expect, and mapping.json, which lists what each code point writes.
+   *
+   * @returns the contents of each file by file name
+   */
+  files(): Record<string, string> {
+    const files: Record<string, string> = {}
+    const glyphs = this.glyphList.map(({ character, grapheme, kind, combining, svg }) => {
+      const hex = character.charCodeAt(0).toString(16).toUpperCase()
+      const file = `uni${hex}.svg`
+      files[file] = svg
+      return { codePoint: `U+${hex}`, character, grapheme, kind, combining, file }
+    })
+    const { type, inherentVowel } = this.writing
+    files['mapping.json'] = JSON.stringify({ type, inherentVowel, glyphs }, null, 2)
+    return files
+  }
+  // the character for a grapheme, or the grapheme itself if it has none
+  private character(kind: GlyphKind, grapheme: string): string {
+    return this.characters.get(`${kind} ${grapheme}`) ?? grapheme
+  }
+  private spell(word: string): string {
+    const p = this.phonology
+    const { type, inherentVowel } = this.writing
+    const consonants = p.consonants(),
+      vowels = p.vowels()
+    // a word as consonants, vowel letters, and marks; anything else is foreign
+    const tokens: [GlyphKind | undefined, string][] = []
+    for (const segment of p.segments(word)) {
+      for (const c of p.isVowel(segment) ? Array.from(segment) : [segment]) {
+        if (this.characters.has(`mark ${c}`)) tokens.push(['mark', c])
+        else if (vowels.includes(c)) tokens.push(['vowel', c])
+        else if (consonants.includes(c)) tokens.push(['consonant', c])
+        else tokens.push([undefined, c])
+      }
+    }
+    let spelled = ''
+    for (let i = 0; i < tokens.length; i++) {
+      const [kind, grapheme] = tokens[i]
+      if (kind !== 'consonant' || type === 'alphabet') {
+        if (kind === 'vowel' && type === 'syllabary') spelled += this.character('syllable', grapheme)
+        else spelled += kind ? this.character(kind, grapheme) : grapheme
+        continue
+      }
+      // the vowel that follows a consonant is written with it
+      const vowel = tokens[i + 1]?.[0] === 'vowel' ? tokens[++i][1] : undefined
+      if (type === 'syllabary') {
+        spelled += this.character('syllable', grapheme + (vowel ?? inherentVowel))
+      } else {
+        spelled += this.character('consonant', grapheme)
+        if (vowel && vowel !== inherentVowel) spelled += this.character('vowelSign', vowel)
+      }
+      if (!vowel) spelled += this.character('virama', '')
+    }
+    return spelled
+  }
+  private unspell(word: string): string {
+    const { type, inherentVowel } = this.writing
+    const chars = Array.from(word)
+    let read = ''
+    for (let i = 0; i < chars.length; i++) {
+      const glyph = this.graphemes.get(chars[i])
+      if (!glyph) {
+        read += chars[i]
+        continue
+      }
+      const next = this.graphemes.get(chars[i + 1])
+      switch (glyph.kind) {
+        case 'consonant':
+          read += glyph.grapheme
+          if (type !== 'abugida') break
+          if (next?.kind === 'vowelSign') read += next.grapheme
+          else if (next?.kind !== 'virama') read += inherentVowel
+          if (next?.kind === 'vowelSign' || next?.kind === 'virama') i++
+          break
+        case 'syllable':
+          // a killed syllable is a bare consonant
+          if (next?.kind === 'virama') {
+            read += glyph.grapheme.slice(0, -1)
+            i++
+          } else {
+            read += glyph.grapheme
+          }
+          break
+        case 'virama':
+          break
+        default:
+          read += glyph.grapheme
+      }
+    }
+    return read
+  }
+}
+
+// a syllabary for few simple syllables, an abugida where final consonants stand alone
+function pickType(p: Readonly<PhonologyEngine>): WritingSystemType {
+  let maxOnset = 0,
+    maxCoda = 0
+  for (const [t] of p.config().syllableTemplates ?? []) {
+    const [onset, coda] = t.split('V')
+    maxOnset = Math.max(maxOnset, onset.length)
+    maxCoda = Math.max(maxCoda, coda.length)
+  }
+  const vowels = p.vowels().length
+  const syllables = (p.consonants().length + 1) * vowels
+  if (maxOnset <= 1 && maxCoda <= 1 && syllables <= 100) return 'syllabary'
+  if (maxOnset <= 2 && maxCoda <= 1) return 'abugida'
+  return 'alphabet'
+}
+
+// draws a glyph unlike any drawn before, as an SVG document
+function draw(grid: [number, number][], minStrokes: number, drawn: Set<string>, w: Writing, h: Hmm): string {
+  const point = () => Math.floor(h.n() * grid.length) % grid.length
+  let strokes: Stroke[] = []
+  let signature = ''
+  for (let attempt = 0; !signature || drawn.has(signature); attempt++) {
+    // glyphs get more complex as the simple ones are used up
+    const n = minStrokes + Math.floor(h.n() * (2 + attempt / 20))
+    strokes = []
+    let at = point()
+    for (let i = 0; i < n; i++) {
+      // strokes tend to continue from where the last one ended
+      const from = i > 0 && h.maybe(0.7) ? at : point()
+      at = point()
+      const bend = from !== at && h.maybe(w.curviness!) ? (h.maybe() ? 1 : -1) : 0
+      strokes.push([from, at, bend])
+    }
+    signature = strokes
+      .map(([a, b, bend]) => (a < b ? `${a}-${b}/${bend}` : `${b}-${a}/${-bend}`))
+      .sort()
+      .join(' ')
+  }
+  drawn.add(signature)
+  const d = strokes
+    .map(([a, b, bend]) => {
+      const [x1, y1] = grid[a],
+        [x2, y2] = grid[b]
+      if (!bend) return `M${x1} ${y1}L${x2} ${y2}`
+      // the control point lies off the midpoint, perpendicular to the stroke
+      const cx = Math.round((x1 + x2) / 2 - (y2 - y1) * 0.4 * bend),
+        cy = Math.round((y1 + y2) / 2 + (x2 - x1) * 0.4 * bend)
+      return `M${x1} ${y1}Q${cx} ${cy} ${x2} ${y2}`
+    })
+    .join('')
+  return (
+    '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100">' +
+    `<path d="${d}" fill="none" stroke="currentColor" stroke-width="${w.strokeWidth}" ` +
+    'stroke-linecap="round" stroke-linejoin="round"/></svg>'
+  )
+}